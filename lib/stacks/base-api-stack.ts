@@ -83,9 +83,16 @@ export class BaseApiStack extends Stack {
           'Authorization',
           'X-Api-Key',
           'X-Amz-Security-Token',
+          'Cache-Control',
         ],
         maxAge: Duration.days(1),
       },
+      // Lets Lambda proxy integrations return base64-encoded images
+      // (e.g. urlify QR codes) as binary to clients that accept them.
+      // Applies to every API on this RestApi: only requests whose Accept
+      // names an image type get binary, and image/* request bodies reach
+      // Lambdas base64-encoded (see docs/API.md)
+      binaryMediaTypes: ['image/*'],
       cloudWatchRole: false,
     });
 
@@ -1,10 +1,23 @@
-import { CfnOutput, Duration, Stack, StackProps } from 'aws-cdk-lib';
+import {
+  CfnOutput,
+  Duration,
+  RemovalPolicy,
+  Stack,
+  StackProps,
+} from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as lambda from 'aws-cdk-lib/aws-lambda-nodejs';
 import * as logs from 'aws-cdk-lib/aws-logs';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
 import { Runtime, Architecture, Tracing } from 'aws-cdk-lib/aws-lambda';
 import * as path from 'path';
+import { JiraInstanceRegistry } from '../../resources/shared/models/types';
+import {
+  DEFAULT_JIRA_INSTANCE,
+  DEFAULT_JIRA_INSTANCES,
+} from '../../resources/shared/constants/constants';
 
 /**
  * TimesheetCoreStack - Timesheet Processing Service
@@ -14,9 +27,15 @@ import * as path from 'path';
  *
  * Architecture:
  * - 1 Proxy Lambda (handles all Jira API proxy routes)
+ * - 1 DynamoDB table caching project and issue responses (TTL-expired)
  *
  * Prerequisites:
  * - BaseApiStack must be deployed first
+ * - If jiraInstancesParameterName is set, the registry JSON stored in that
+ *   SSM parameter (read at deploy time, so redeploy after changing it)
+ *
+ * Every endpoint takes the target Jira as ?jiraInstance=<registry ID>
+ * (defaultJiraInstance when omitted); unknown IDs are rejected with 400.
  *
  * Proxy Endpoints (single Lambda):
  * - GET /timesheet/auth - Check authentication with Jira
@@ -28,6 +47,7 @@ import * as path from 'path';
  * - GET /timesheet/timesheet-view?fromDate=x&toDate=y&user=z&jiraInstance=jiradc - Fetch timesheet calendar view
  * - GET /timesheet/timesheet-dates?fromDate=x&toDate=y&user=z&jiraInstance=jiradc - Fetch timesheet dates
  * - POST /timesheet/logwork?jiraInstance=jiradc - Log work entry to Jira
+ * - POST /timesheet/logwork/batch?jiraInstance=jiradc - Log many work entries, optionally all-or-nothing
  * - POST /timesheet/project-worklogs-warning?jiraInstance=jiradc - Get project worklogs warning report
  * - POST /timesheet/project-worklogs-report/get-all?jiraInstance=jiradc - Get all project worklogs report
  * - GET /timesheet/projects?jiraInstance=jiradc - Fetch all Jira projects
@@ -38,6 +58,24 @@ import * as path from 'path';
 export interface TimesheetCoreStackProps extends StackProps {
   api: apigateway.RestApi; // Base API Gateway from BaseApiStack
   baseApiUrl: string; // Base API URL (e.g., 'https://api.elevensys.dev')
+  /**
+   * Jira instances the proxy can reach, keyed by the ID clients pass as
+   * jiraInstance
+   * @default - jira3, jira9 and jiradc on insight.fsoft.com.vn
+   */
+  jiraInstances?: JiraInstanceRegistry;
+  /**
+   * SSM Parameter name holding the registry as JSON; replaces jiraInstances.
+   * Its value is only checked by the Lambda, which answers 500 while it is
+   * invalid or lacks defaultJiraInstance
+   * @default - use jiraInstances
+   */
+  jiraInstancesParameterName?: string;
+  /**
+   * Instance used when a request does not name one
+   * @default 'jiradc'
+   */
+  defaultJiraInstance?: string;
 }
 
 /** Shared Lambda defaults for all functions in this stack */
@@ -53,6 +91,40 @@ export class TimesheetCoreStack extends Stack {
   constructor(scope: Construct, id: string, props: TimesheetCoreStackProps) {
     super(scope, id, props);
 
+    // =========================================================================
+    // Jira instance registry
+    // =========================================================================
+
+    const defaultJiraInstance =
+      props.defaultJiraInstance ?? DEFAULT_JIRA_INSTANCE;
+    let jiraInstances: string;
+    if (props.jiraInstancesParameterName) {
+      jiraInstances = ssm.StringParameter.fromStringParameterName(
+        this,
+        'JiraInstancesParameter',
+        props.jiraInstancesParameterName
+      ).stringValue;
+    } else {
+      const registry = props.jiraInstances ?? DEFAULT_JIRA_INSTANCES;
+      if (!(defaultJiraInstance in registry)) {
+        throw new Error(
+          `defaultJiraInstance "${defaultJiraInstance}" is not in jiraInstances`
+        );
+      }
+      jiraInstances = JSON.stringify(registry);
+    }
+
+    // =========================================================================
+    // DynamoDB: Jira response cache (shared by all Lambda containers)
+    // =========================================================================
+
+    const cacheTable = new dynamodb.Table(this, 'TimesheetCacheTable', {
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'TTL',
+    });
+
     // =========================================================================
     // Timesheet Proxy Lambda (single Lambda for all Jira API routes)
     // =========================================================================
@@ -72,10 +144,15 @@ export class TimesheetCoreStack extends Stack {
         }),
         environment: {
           NODE_OPTIONS: '--enable-source-maps',
+          JIRA_INSTANCES: jiraInstances,
+          DEFAULT_JIRA_INSTANCE: defaultJiraInstance,
+          CACHE_TABLE_NAME: cacheTable.tableName,
         },
       }
     );
 
+    cacheTable.grantReadWriteData(timesheetProxyLambda);
+
     const proxyIntegration = new apigateway.LambdaIntegration(
       timesheetProxyLambda
     );
@@ -121,9 +198,10 @@ export class TimesheetCoreStack extends Stack {
       .addMethod('GET', proxyIntegration);
 
     // POST /timesheet/logwork
-    timesheetResource
-      .addResource('logwork')
-      .addMethod('POST', proxyIntegration);
+    // POST /timesheet/logwork/batch
+    const logworkResource = timesheetResource.addResource('logwork');
+    logworkResource.addMethod('POST', proxyIntegration);
+    logworkResource.addResource('batch').addMethod('POST', proxyIntegration);
 
     // POST /timesheet/project-worklogs-warning
     timesheetResource
@@ -2,7 +2,11 @@ import { Duration, RemovalPolicy, Stack, StackProps } from 'aws-cdk-lib';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as lambda from 'aws-cdk-lib/aws-lambda-nodejs';
 import * as logs from 'aws-cdk-lib/aws-logs';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventsTargets from 'aws-cdk-lib/aws-events-targets';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
 import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
 import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
 import * as route53 from 'aws-cdk-lib/aws-route53';
@@ -11,6 +15,15 @@ import * as acm from 'aws-cdk-lib/aws-certificatemanager';
 import { Architecture, Runtime, Tracing } from 'aws-cdk-lib/aws-lambda';
 import { Construct } from 'constructs';
 import path from 'path';
+import {
+  DEFAULT_CLICK_DEDUPE_WINDOW_MINUTES,
+  DEFAULT_EXPIRY_GRACE_DAYS,
+  DEFAULT_EXPIRY_WARNING_DAYS,
+  DEFAULT_SHORTEN_LIMIT_PER_CALLER,
+  DEFAULT_SHORTEN_LIMIT_PER_IP,
+  ERROR_CACHE_TTL_SECONDS,
+  ShortCodeAlphabet,
+} from '../../resources/shared/constants/constants';
 
 /**
  * UrlifyStack - URL Shortener Service
@@ -18,11 +31,11 @@ import path from 'path';
  * This stack provides URL shortening with 2 separate endpoints:
  *
  * Architecture:
- * - Admin API (api.elevensys.dev/urlify): Manage URLs (create, view, delete)
- * - Redirect API (urlify.cc): Redirect shortened URLs
+ * - Admin API (api.elevensys.dev/urlify): Manage URLs (create, view, edit, delete)
+ * - Redirect API (urlify.cc): Redirect shortened URLs and record click events
  *
  * Components:
- * - 2 Lambda Functions (Admin & Redirect)
+ * - 3 Lambda Functions (Admin, Redirect & daily Expiry Notifier)
  * - 1 DynamoDB Table (shared storage)
  * - Admin API uses base API Gateway (api.elevensys.dev)
  * - Redirect API has separate API Gateway + CloudFront
@@ -31,11 +44,15 @@ import path from 'path';
  *
  * Caching Strategy:
  * - Admin API: No cache (inherited from base API)
- * - Redirect API: 5 min cache - optimized performance
+ * - Redirect API: redirects uncached (every click is counted), 404/410
+ *   pages cached for 60 s and invalidated on edits and deletes
  *
  * Prerequisites:
  * - ACM Certificate in us-east-1 for urlify.cc
+ * - Cursor signing secret stored in SSM Parameter Store at /urlify/cursor-secret
+ * - Bootstrap admin API key stored in SSM Parameter Store at /urlify/admin-api-key
  * - Route53 Hosted Zone for urlify.cc
+ * - SES identity for fromEmail (set up by CoreStack)
  * - BaseApiStack must be deployed first
  *
  * See: URLIFY_SETUP.md
@@ -46,6 +63,62 @@ export interface UrlifyStackProps extends StackProps {
   certificateArn: string;
   api: apigateway.RestApi;
   baseApiUrl: string;
+  /** Sender of link expiry warnings */
+  fromEmail: string;
+  /**
+   * Alphabet for generated short codes: 'base62' or 'unambiguous'
+   * (no 0/O/1/l/I lookalikes)
+   * @default 'base62'
+   */
+  shortCodeAlphabet?: ShortCodeAlphabet;
+  /**
+   * SSM Parameter name for the list pagination cursor signing secret
+   * @default '/urlify/cursor-secret'
+   */
+  cursorSecretParameterName?: string;
+  /**
+   * SSM Parameter name for the bootstrap admin API key, used to issue the
+   * first API keys
+   * @default '/urlify/admin-api-key'
+   */
+  adminApiKeyParameterName?: string;
+  /**
+   * Links each API key may create per hour, unless the key sets its own limit
+   * @default 100
+   */
+  shortenLimitPerCaller?: number;
+  /**
+   * Links that may be created per hour from one client IP address
+   * @default 300
+   */
+  shortenLimitPerIp?: number;
+  /**
+   * Domains short link destinations must belong to (subdomains included)
+   * @default - any domain
+   */
+  allowedDestinationDomains?: string[];
+  /**
+   * Domains short link destinations must not belong to (subdomains included)
+   * @default - none
+   */
+  deniedDestinationDomains?: string[];
+  /**
+   * Window in which repeat visits from the same IP address and browser count
+   * as one unique visitor
+   * @default 30
+   */
+  clickDedupeWindowMinutes?: number;
+  /**
+   * Days before expiry that link owners with an email are warned
+   * @default 7
+   */
+  expiryWarningDays?: number;
+  /**
+   * Days expired links keep showing a "link expired" page, and can be
+   * renewed, before they are deleted
+   * @default 14
+   */
+  expiryGraceDays?: number;
 }
 
 export class UrlifyStack extends Stack {
@@ -60,6 +133,57 @@ export class UrlifyStack extends Stack {
       timeToLiveAttribute: 'TTL',
     });
 
+    // An existing table takes one new GSI per deploy; see "Adding the GSIs
+    // to an existing table" in URLIFY_SETUP.md
+    urlifyTable.addGlobalSecondaryIndex({
+      indexName: 'EntityTypeCreatedAtIndex',
+      partitionKey: {
+        name: 'EntityType',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: { name: 'CreatedAt', type: dynamodb.AttributeType.NUMBER },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    urlifyTable.addGlobalSecondaryIndex({
+      indexName: 'CreatedByCreatedAtIndex',
+      partitionKey: {
+        name: 'CreatedBy',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: { name: 'CreatedAt', type: dynamodb.AttributeType.NUMBER },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Sparse: only links with an expiry warning due carry ExpiryNotification
+    urlifyTable.addGlobalSecondaryIndex({
+      indexName: 'ExpiryNotificationIndex',
+      partitionKey: {
+        name: 'ExpiryNotification',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: { name: 'ExpiresAt', type: dynamodb.AttributeType.NUMBER },
+      projectionType: dynamodb.ProjectionType.INCLUDE,
+      nonKeyAttributes: ['ShortCode', 'OriginalUrl', 'OwnerEmail'],
+    });
+
+    const expiryGraceDays = String(
+      props.expiryGraceDays ?? DEFAULT_EXPIRY_GRACE_DAYS
+    );
+
+    // Secret used to sign the opaque pagination cursors of GET /urlify/urls
+    const cursorSecret = ssm.StringParameter.fromStringParameterName(
+      this,
+      'UrlifyCursorSecret',
+      props.cursorSecretParameterName ?? '/urlify/cursor-secret'
+    );
+
+    const adminApiKey = ssm.StringParameter.fromStringParameterName(
+      this,
+      'UrlifyAdminApiKey',
+      props.adminApiKeyParameterName ?? '/urlify/admin-api-key'
+    );
+
     const adminLogGroup = new logs.LogGroup(this, 'UrlifyAdminLambdaLogGroup', {
       retention: logs.RetentionDays.ONE_MONTH,
     });
@@ -72,6 +196,14 @@ export class UrlifyStack extends Stack {
       }
     );
 
+    const notifierLogGroup = new logs.LogGroup(
+      this,
+      'UrlifyExpiryNotifierLambdaLogGroup',
+      {
+        retention: logs.RetentionDays.ONE_MONTH,
+      }
+    );
+
     const urlifyAdminLambda = new lambda.NodejsFunction(
       this,
       'UrlifyAdminLambda',
@@ -90,6 +222,20 @@ export class UrlifyStack extends Stack {
           NODE_OPTIONS: '--enable-source-maps',
           URLIFY_TABLE_NAME: urlifyTable.tableName,
           BASE_URL: `https://${props.redirectDomain}`,
+          SHORT_CODE_ALPHABET: props.shortCodeAlphabet ?? 'base62',
+          URLIFY_CURSOR_SECRET: cursorSecret.stringValue,
+          URLIFY_ADMIN_API_KEY: adminApiKey.stringValue,
+          SHORTEN_LIMIT_PER_CALLER: String(
+            props.shortenLimitPerCaller ?? DEFAULT_SHORTEN_LIMIT_PER_CALLER
+          ),
+          SHORTEN_LIMIT_PER_IP: String(
+            props.shortenLimitPerIp ?? DEFAULT_SHORTEN_LIMIT_PER_IP
+          ),
+          URL_ALLOWED_DOMAINS: (props.allowedDestinationDomains ?? []).join(
+            ','
+          ),
+          URL_DENIED_DOMAINS: (props.deniedDestinationDomains ?? []).join(','),
+          EXPIRY_GRACE_DAYS: expiryGraceDays,
         },
       }
     );
@@ -108,6 +254,9 @@ export class UrlifyStack extends Stack {
       environment: {
         NODE_OPTIONS: '--enable-source-maps',
         URLIFY_TABLE_NAME: urlifyTable.tableName,
+        CLICK_DEDUPE_WINDOW_MINUTES: String(
+          props.clickDedupeWindowMinutes ?? DEFAULT_CLICK_DEDUPE_WINDOW_MINUTES
+        ),
       },
     });
 
@@ -123,17 +272,46 @@ export class UrlifyStack extends Stack {
 
     const shortenResource = urlifyResource.addResource('shorten');
     shortenResource.addMethod('POST', urlifyAdminLambdaIntegration);
+    shortenResource
+      .addResource('batch')
+      .addMethod('POST', urlifyAdminLambdaIntegration);
 
     const statsResource = urlifyResource.addResource('stats');
     const statsShortCodeResource = statsResource.addResource('{shortCode}');
     statsShortCodeResource.addMethod('GET', urlifyAdminLambdaIntegration);
 
+    urlifyResource
+      .addResource('qr')
+      .addResource('{shortCode}')
+      .addMethod('GET', urlifyAdminLambdaIntegration);
+
     const urlsResource = urlifyResource.addResource('urls');
     urlsResource.addMethod('GET', urlifyAdminLambdaIntegration);
 
+    urlifyResource
+      .addResource('export')
+      .addMethod('GET', urlifyAdminLambdaIntegration);
+    urlifyResource
+      .addResource('import')
+      .addMethod('POST', urlifyAdminLambdaIntegration);
+
+    const keysResource = urlifyResource.addResource('keys');
+    keysResource.addMethod('POST', urlifyAdminLambdaIntegration);
+    keysResource.addMethod('GET', urlifyAdminLambdaIntegration);
+    const keyIdResource = keysResource.addResource('{keyId}');
+    keyIdResource.addMethod('PATCH', urlifyAdminLambdaIntegration);
+    keyIdResource.addMethod('DELETE', urlifyAdminLambdaIntegration);
+
     const urlResource = urlifyResource.addResource('url');
+    urlResource
+      .addResource('batch-delete')
+      .addMethod('POST', urlifyAdminLambdaIntegration);
     const urlShortCodeResource = urlResource.addResource('{shortCode}');
     urlShortCodeResource.addMethod('DELETE', urlifyAdminLambdaIntegration);
+    urlShortCodeResource.addMethod('PATCH', urlifyAdminLambdaIntegration);
+    urlShortCodeResource
+      .addResource('history')
+      .addMethod('GET', urlifyAdminLambdaIntegration);
 
     const redirectApi = new apigateway.RestApi(this, 'UrlifyRedirectApi', {
       restApiName: 'Urlify Redirect Service',
@@ -149,9 +327,59 @@ export class UrlifyStack extends Stack {
 
     const shortCodeResource = redirectApi.root.addResource('{shortCode}');
     shortCodeResource.addMethod('GET', urlifyLambdaIntegration);
+    // Unlock form submissions for password-protected links
+    shortCodeResource.addMethod('POST', urlifyLambdaIntegration);
 
     urlifyTable.grantReadWriteData(urlifyAdminLambda);
+    cursorSecret.grantRead(urlifyAdminLambda);
+    adminApiKey.grantRead(urlifyAdminLambda);
     urlifyTable.grantReadWriteData(urlifyLambda);
+
+    // ===== Expiry warnings, sent daily =====
+    const expiryNotifierLambda = new lambda.NodejsFunction(
+      this,
+      'UrlifyExpiryNotifierLambda',
+      {
+        entry: path.join(
+          __dirname,
+          '../../resources/lambda/urlify-expiry-notifier-lambda/index.ts'
+        ),
+        runtime: Runtime.NODEJS_LATEST,
+        architecture: Architecture.ARM_64,
+        timeout: Duration.minutes(5),
+        memorySize: 128,
+        tracing: Tracing.DISABLED,
+        logGroup: notifierLogGroup,
+        environment: {
+          NODE_OPTIONS: '--enable-source-maps',
+          URLIFY_TABLE_NAME: urlifyTable.tableName,
+          BASE_URL: `https://${props.redirectDomain}`,
+          ADMIN_API_URL: `${props.baseApiUrl}/urlify`,
+          FROM_EMAIL: props.fromEmail,
+          EXPIRY_WARNING_DAYS: String(
+            props.expiryWarningDays ?? DEFAULT_EXPIRY_WARNING_DAYS
+          ),
+          EXPIRY_GRACE_DAYS: expiryGraceDays,
+        },
+      }
+    );
+
+    urlifyTable.grantReadWriteData(expiryNotifierLambda);
+
+    // SES: send expiry warning emails
+    expiryNotifierLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['ses:SendEmail', 'ses:SendRawEmail'],
+        resources: ['*'],
+      })
+    );
+
+    new events.Rule(this, 'UrlifyExpiryNotifierDailyRule', {
+      schedule: events.Schedule.rate(Duration.days(1)),
+      targets: [new eventsTargets.LambdaFunction(expiryNotifierLambda)],
+      description: 'Triggers urlify expiry warnings every day',
+    });
+
     const hostedZone = route53.HostedZone.fromHostedZoneAttributes(
       this,
       'HostedZone',
@@ -167,6 +395,30 @@ export class UrlifyStack extends Stack {
       props.certificateArn
     );
 
+    // Dead-link pages are HTML for browsers and JSON for everything else.
+    // Rewriting Accept to one of two values at the edge (with the test
+    // acceptsHtml uses) keeps every client's own Accept string out of the
+    // cache key.
+    const acceptNormalizer = new cloudfront.Function(
+      this,
+      'UrlifyAcceptNormalizerFunction',
+      {
+        comment: 'Normalizes Accept to text/html or application/json',
+        runtime: cloudfront.FunctionRuntime.JS_2_0,
+        code: cloudfront.FunctionCode.fromInline(`
+function handler(event) {
+  var request = event.request;
+  var accept = request.headers.accept ? request.headers.accept.value : '';
+  request.headers.accept = {
+    value: /text\\/html|application\\/xhtml\\+xml/i.test(accept)
+      ? 'text/html'
+      : 'application/json',
+  };
+  return request;
+}`),
+      }
+    );
+
     const redirectDistribution = new cloudfront.Distribution(
       this,
       'UrlifyRedirectDistribution',
@@ -176,31 +428,90 @@ export class UrlifyStack extends Stack {
         certificate,
         defaultBehavior: {
           origin: new origins.RestApiOrigin(redirectApi),
-          allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
+          allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
           cachedMethods: cloudfront.CachedMethods.CACHE_GET_HEAD,
           viewerProtocolPolicy:
             cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+          functionAssociations: [
+            {
+              function: acceptNormalizer,
+              eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
+            },
+          ],
+          // Forward the viewer details the redirect Lambda records per click
+          // (headers in the cache key below are forwarded as well)
+          originRequestPolicy: new cloudfront.OriginRequestPolicy(
+            this,
+            'UrlifyRedirectOriginRequestPolicy',
+            {
+              originRequestPolicyName: 'UrlifyRedirectOriginRequestPolicy',
+              comment:
+                'Forwards click analytics headers and cookies to the redirect API',
+              headerBehavior: cloudfront.OriginRequestHeaderBehavior.allowList(
+                'Referer',
+                'User-Agent',
+                // Visitor IP for unique visitors and variant pinning; viewers
+                // cannot set it, unlike X-Forwarded-For
+                'CloudFront-Viewer-Address',
+                // Prefetch hints, so prefetches are not counted as human clicks
+                'Purpose',
+                'Sec-Purpose',
+                'X-Purpose',
+                'X-Moz',
+                // Targeting rules pick destinations by OS, country and
+                // language. Redirects are never cached, so these stay out
+                // of the cache key.
+                'Accept-Language',
+                'CloudFront-Is-Android-Viewer',
+                'CloudFront-Is-IOS-Viewer',
+                'CloudFront-Viewer-Country'
+              ),
+              queryStringBehavior:
+                cloudfront.OriginRequestQueryStringBehavior.all(),
+              // A/B links pin visitors to a variant with a cookie
+              cookieBehavior: cloudfront.OriginRequestCookieBehavior.all(),
+            }
+          ),
           cachePolicy: new cloudfront.CachePolicy(
             this,
             'UrlifyRedirectCachePolicy',
             {
               cachePolicyName: 'UrlifyRedirectCachePolicy',
               comment: 'Cache policy for URL redirects',
+              // Redirects are sent with no-cache or no-store, and minTtl 0
+              // makes CloudFront honour that: every visit reaches the
+              // redirect Lambda, which counts the click
               defaultTtl: Duration.minutes(5),
-              minTtl: Duration.seconds(1),
+              minTtl: Duration.seconds(0),
               maxTtl: Duration.hours(24),
               cookieBehavior: cloudfront.CacheCookieBehavior.none(),
-              headerBehavior: cloudfront.CacheHeaderBehavior.none(),
+              // Browsers get HTML error pages, API clients get JSON (Accept
+              // is normalized above)
+              headerBehavior:
+                cloudfront.CacheHeaderBehavior.allowList('Accept'),
               queryStringBehavior: cloudfront.CacheQueryStringBehavior.all(),
               enableAcceptEncodingGzip: true,
               enableAcceptEncodingBrotli: true,
             }
           ),
         },
+        // Missing, expired and disabled links; applies when the origin
+        // response has no Cache-Control of its own
+        errorResponses: [404, 410].map((httpStatus) => ({
+          httpStatus,
+          ttl: Duration.seconds(ERROR_CACHE_TTL_SECONDS),
+        })),
         priceClass: cloudfront.PriceClass.PRICE_CLASS_200,
       }
     );
 
+    // Edits and deletes invalidate the cached 404/410 page for their short code
+    urlifyAdminLambda.addEnvironment(
+      'URLIFY_DISTRIBUTION_ID',
+      redirectDistribution.distributionId
+    );
+    redirectDistribution.grantCreateInvalidation(urlifyAdminLambda);
+
     new route53.ARecord(this, 'UrlifyRedirectAliasRecord', {
       zone: hostedZone,
       recordName: props.redirectDomain,
@@ -1,27 +1,160 @@
-import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import axios from 'axios';
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+} from 'aws-lambda';
+import { createHash } from 'crypto';
 import {
   createJiraHeaders,
+  getHeader,
   parseBodyToJson,
 } from '../../shared/utils/httpUtils';
+import {
+  UpstreamClient,
+  UpstreamError,
+  UpstreamMethod,
+} from '../../shared/services/upstreamClient';
+import { ResponseCache } from '../../shared/services/responseCache';
 import { withCors } from '../../shared/utils/corsUtils';
-import { JiraInstance } from '../../shared/models/types';
+import {
+  JiraHeaderProfile,
+  JiraInstance,
+  JiraInstanceConfig,
+  JiraInstanceRegistry,
+} from '../../shared/models/types';
+import {
+  DEFAULT_JIRA_INSTANCE,
+  JIRA_API_PATHS,
+} from '../../shared/constants/constants';
+
+const JIRA_HEADER_PROFILES: JiraHeaderProfile[] = ['browser', 'api'];
+
+// Registry JSON from TimesheetCoreStack (stack props or an SSM parameter).
+// An invalid registry fails requests with 500 instead of every cold start.
+const JIRA_REGISTRY = loadJiraRegistry(process.env.JIRA_INSTANCES);
+const JIRA_INSTANCES: JiraInstanceRegistry = JIRA_REGISTRY.registry ?? {};
+const DEFAULT_INSTANCE =
+  process.env.DEFAULT_JIRA_INSTANCE || DEFAULT_JIRA_INSTANCE;
+if (JIRA_REGISTRY.error) {
+  console.error(`Invalid JIRA_INSTANCES: ${JIRA_REGISTRY.error}`);
+} else if (!resolveJiraInstance(DEFAULT_INSTANCE)) {
+  console.error(`Default Jira instance ${DEFAULT_INSTANCE} is not registered`);
+}
+
+// One client per Jira instance, so each has its own circuit breaker. They
+// live as long as the Lambda container.
+const upstreamClients = new Map<JiraInstance, UpstreamClient>();
+
+// Cached responses of read-only routes (memory-only without a table)
+const responseCache = new ResponseCache(process.env.CACHE_TABLE_NAME);
+const PROJECT_CACHE_TTL_SECONDS = 60 * 60;
+const ISSUE_CACHE_TTL_SECONDS = 5 * 60;
 
-type HttpMethod = 'GET' | 'POST' | 'DELETE' | 'PUT' | 'PATCH';
+// Requests must be answered before API Gateway gives up on them, and a
+// little before the Lambda timeout when that comes first
+const API_GATEWAY_TIMEOUT_MS = 29_000;
+const RESPONSE_MARGIN_MS = 1_000;
 
-const JIRA_BASE = 'https://insight.fsoft.com.vn';
+// Batch log-work limits. No create starts with less than BATCH_CREATE_TIME_MS
+// left, and atomic batches keep BATCH_ROLLBACK_TIME_MS to delete their
+// worklogs again.
+const MAX_BATCH_ENTRIES = 20;
+const BATCH_CONCURRENCY = 4;
+const BATCH_CREATE_TIME_MS = 5_000;
+const BATCH_ROLLBACK_TIME_MS = 8_000;
+const LOG_WORK_REQUIRED_FIELDS = ['issueKey', 'username', 'startDate'];
+// Dry runs warn when a day's worklogs add up to more than this
+const MAX_HOURS_PER_DAY = 8;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * What a route's execute hook gets to make its own upstream calls
+ */
+interface RouteContext {
+  event: APIGatewayProxyEvent;
+  jira: JiraInstanceConfig;
+  client: UpstreamClient;
+  /** URL returned by the route's buildUrl */
+  url: string;
+  headers: Record<string, string>;
+  /** Parsed request body, for routes with requiredBodyFields */
+  body: any;
+  /** Epoch ms by which the response has to be sent */
+  deadline: number;
+}
 
 interface RouteConfig {
-  method: HttpMethod;
+  method: UpstreamMethod;
   path: string;
   requiredQueryParams?: string[];
   requiredPathParams?: string[];
   requiredBodyFields?: string[];
-  buildUrl: (jiraInstance: JiraInstance, event: APIGatewayProxyEvent) => string;
+  buildUrl: (jira: JiraInstanceConfig, event: APIGatewayProxyEvent) => string;
   /** Build the upstream request body (used when gateway GET proxies to Jira POST) */
   buildBody?: (event: APIGatewayProxyEvent) => any;
   /** Override Content-Type for the upstream request (e.g. 'application/x-www-form-urlencoded') */
   contentType?: string;
+  /** Set on POST routes that only read, so failed calls are retried */
+  idempotent?: boolean;
+  /**
+   * Replace the single proxied request (e.g. to fan out to several upstream
+   * calls); resolving to undefined proxies the request as usual
+   */
+  execute?: (
+    context: RouteContext
+  ) => Promise<APIGatewayProxyResult | undefined>;
+  /** Cache successful responses per Jira instance and token */
+  cache?: {
+    ttlSeconds: number;
+    /** Tags that let mutating routes invalidate the cached response */
+    tags?: (event: APIGatewayProxyEvent, data: any) => string[];
+  };
+  /** Cache tags a successful call invalidates, read from the request */
+  invalidates?: (event: APIGatewayProxyEvent, body: any) => string[];
+}
+
+/**
+ * The fields of a Tempo worklog that dry runs read. Log-work entries and the
+ * worklogs returned by timesheet-dates both have them. Other fields are
+ * passed through untouched.
+ */
+interface WorklogTiming {
+  issueKey?: string;
+  username?: string;
+  /** YYYY-MM-DD, or an ISO 8601 date-time when the start time is known */
+  startDate: string;
+  timeSpentSeconds?: number;
+}
+
+/**
+ * Dry-run verdict for one log-work entry
+ */
+interface LogWorkCheck {
+  issueFound: boolean;
+  date: string;
+  /** Hours already logged that day, including earlier entries of the batch */
+  loggedHours: number;
+  /** loggedHours plus this entry */
+  totalHours: number;
+  warnings: Array<{ code: string; detail: string }>;
+}
+
+function issueUrl(jira: JiraInstanceConfig, issueId: string): string {
+  return `${jira.baseUrl}/${JIRA_API_PATHS[jira.apiFlavour]}/issue/${issueId}`;
+}
+
+function timesheetDatesUrl(jira: JiraInstanceConfig): string {
+  return `${jira.baseUrl}/rest/tempo/1.0/user-worklogs/get-list-date`;
+}
+
+/**
+ * Cache tags of an issue. Issues are tagged with both their ID and their key,
+ * as routes refer to them either way.
+ */
+function issueTags(...issueIds: unknown[]): string[] {
+  return issueIds
+    .filter((id) => typeof id === 'string' || typeof id === 'number')
+    .map((id) => `issue:${String(id).toUpperCase()}`);
 }
 
 function forwardQueryParams(
@@ -43,18 +176,18 @@ const ROUTES: Record<string, RouteConfig> = {
   'GET /timesheet/auth': {
     method: 'GET',
     path: 'system/auth',
-    buildUrl: (ji) =>
-      `${JIRA_BASE}/${ji}/rest/softwareplant-bigtemplate/1.0/system/auth`,
+    buildUrl: (jira) =>
+      `${jira.baseUrl}/rest/softwareplant-bigtemplate/1.0/system/auth`,
   },
 
   'GET /timesheet/worklogs': {
     method: 'GET',
     path: 'user-worklogs/get-list',
     requiredQueryParams: ['fromDate', 'toDate', 'user'],
-    buildUrl: (ji, event) => {
+    buildUrl: (jira, event) => {
       const params = event.queryStringParameters!;
       const url = new URL(
-        `${JIRA_BASE}/${ji}/rest/tempo/1.0/user-worklogs/get-list`
+        `${jira.baseUrl}/rest/tempo/1.0/user-worklogs/get-list`
       );
       url.searchParams.set('fromDate', params.fromDate!);
       url.searchParams.set('toDate', params.toDate!);
@@ -68,10 +201,10 @@ const ROUTES: Record<string, RouteConfig> = {
     method: 'GET',
     path: 'project-worklogs/get-list',
     requiredQueryParams: ['projectKey', 'fromDate', 'toDate'],
-    buildUrl: (ji, event) =>
+    buildUrl: (jira, event) =>
       forwardQueryParams(
         event,
-        `${JIRA_BASE}/${ji}/rest/tempo/1.0/project-worklogs/get-list`
+        `${jira.baseUrl}/rest/tempo/1.0/project-worklogs/get-list`
       ),
   },
 
@@ -79,10 +212,10 @@ const ROUTES: Record<string, RouteConfig> = {
     method: 'GET',
     path: 'project-worklogs/get-page-list',
     requiredQueryParams: ['projectKey', 'fromDate', 'toDate'],
-    buildUrl: (ji, event) =>
+    buildUrl: (jira, event) =>
       forwardQueryParams(
         event,
-        `${JIRA_BASE}/${ji}/rest/tempo/1.0/project-worklogs/get-page-list`
+        `${jira.baseUrl}/rest/tempo/1.0/project-worklogs/get-page-list`
       ),
   },
 
@@ -90,19 +223,20 @@ const ROUTES: Record<string, RouteConfig> = {
     method: 'DELETE',
     path: 'project-worklogs',
     requiredPathParams: ['issueId', 'timesheetId'],
-    buildUrl: (ji, event) => {
+    buildUrl: (jira, event) => {
       const { issueId, timesheetId } = event.pathParameters!;
-      return `${JIRA_BASE}/${ji}/rest/tempo/1.0/project-worklogs/${issueId}/${timesheetId}`;
+      return `${jira.baseUrl}/rest/tempo/1.0/project-worklogs/${issueId}/${timesheetId}`;
     },
+    invalidates: (event) => issueTags(event.pathParameters!.issueId),
   },
 
   'GET /timesheet/timesheet-view': {
     method: 'GET',
     path: 'user-worklogs/search-by-user',
     requiredQueryParams: ['fromDate', 'toDate', 'user'],
-    buildUrl: (ji, event) => {
+    buildUrl: (jira, event) => {
       const params = event.queryStringParameters!;
-      const baseUrl = `${JIRA_BASE}/${ji}/rest/tempo/1.0/user-worklogs/search-by-user`;
+      const baseUrl = `${jira.baseUrl}/rest/tempo/1.0/user-worklogs/search-by-user`;
       const url = new URL(baseUrl);
       url.searchParams.set('fromDate', params.fromDate!);
       url.searchParams.set('toDate', params.toDate!);
@@ -124,10 +258,9 @@ const ROUTES: Record<string, RouteConfig> = {
     method: 'GET',
     path: 'user-worklogs/get-list-date',
     requiredQueryParams: ['fromDate', 'toDate', 'user'],
-    buildUrl: (ji, event) => {
+    buildUrl: (jira, event) => {
       const params = event.queryStringParameters!;
-      const baseUrl = `${JIRA_BASE}/${ji}/rest/tempo/1.0/user-worklogs/get-list-date`;
-      const url = new URL(baseUrl);
+      const url = new URL(timesheetDatesUrl(jira));
       url.searchParams.set('fromDate', params.fromDate!);
       url.searchParams.set('toDate', params.toDate!);
       url.searchParams.set('user', params.user!);
@@ -147,53 +280,89 @@ const ROUTES: Record<string, RouteConfig> = {
   'POST /timesheet/logwork': {
     method: 'POST',
     path: 'log-work/create-log-work',
-    requiredBodyFields: ['issueKey', 'username', 'startDate'],
-    buildUrl: (ji) =>
-      `${JIRA_BASE}/${ji}/rest/tempo/1.0/log-work/create-log-work`,
+    requiredBodyFields: LOG_WORK_REQUIRED_FIELDS,
+    buildUrl: (jira) =>
+      `${jira.baseUrl}/rest/tempo/1.0/log-work/create-log-work`,
+    execute: async (context) => {
+      const { body } = context;
+      if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+        return errorResponse(400, 'dryRun must be a boolean');
+      }
+      if (!body.dryRun) {
+        // Not a Tempo field
+        delete body.dryRun;
+        return undefined;
+      }
+      const [check] = await checkLogWork(context, [body]);
+      return successResponse({ dryRun: true, ...check });
+    },
+    invalidates: (event, body) =>
+      body.dryRun === true ? [] : issueTags(body.issueKey),
+  },
+
+  'POST /timesheet/logwork/batch': {
+    method: 'POST',
+    path: 'log-work/create-log-work',
+    requiredBodyFields: ['entries'],
+    buildUrl: (jira) =>
+      `${jira.baseUrl}/rest/tempo/1.0/log-work/create-log-work`,
+    execute: logWorkBatch,
+    invalidates: (event, body) =>
+      body.dryRun === true || !Array.isArray(body.entries)
+        ? []
+        : issueTags(...body.entries.map((entry: any) => entry?.issueKey)),
   },
 
   'POST /timesheet/project-worklogs-warning': {
     method: 'POST',
     path: 'project-my-worklogs-report/get-warning',
     requiredBodyFields: ['pid', 'startDate', 'endDate'],
-    buildUrl: (ji) =>
-      `${JIRA_BASE}/${ji}/rest/hunger/1.0/project-my-worklogs-report/get-warning`,
+    idempotent: true,
+    buildUrl: (jira) =>
+      `${jira.baseUrl}/rest/hunger/1.0/project-my-worklogs-report/get-warning`,
   },
 
   'POST /timesheet/project-worklogs-report/get-all': {
     method: 'POST',
     path: 'project-worklogs-report/get-all',
     requiredBodyFields: ['pid', 'startDate', 'endDate'],
-    buildUrl: (ji, event) =>
+    idempotent: true,
+    buildUrl: (jira, event) =>
       forwardQueryParams(
         event,
-        `${JIRA_BASE}/${ji}/rest/hunger/1.0/project-worklogs-report/get-all`
+        `${jira.baseUrl}/rest/hunger/1.0/project-worklogs-report/get-all`
       ),
   },
 
   'GET /timesheet/projects': {
     method: 'GET',
     path: 'project',
-    buildUrl: (ji) => `${JIRA_BASE}/${ji}/rest/api/2/project`,
+    buildUrl: (jira) =>
+      `${jira.baseUrl}/${JIRA_API_PATHS[jira.apiFlavour]}/project`,
+    cache: { ttlSeconds: PROJECT_CACHE_TTL_SECONDS },
   },
 
   'GET /timesheet/projects/{projectId}': {
     method: 'GET',
     path: 'project/{projectId}',
     requiredPathParams: ['projectId'],
-    buildUrl: (ji, event) => {
+    buildUrl: (jira, event) => {
       const { projectId } = event.pathParameters!;
-      return `${JIRA_BASE}/${ji}/rest/api/2/project/${projectId}`;
+      return `${jira.baseUrl}/${JIRA_API_PATHS[jira.apiFlavour]}/project/${projectId}`;
     },
+    cache: { ttlSeconds: PROJECT_CACHE_TTL_SECONDS },
   },
 
   'GET /timesheet/issue/{issueId}': {
     method: 'GET',
     path: 'issue/{issueId}',
     requiredPathParams: ['issueId'],
-    buildUrl: (ji, event) => {
-      const { issueId } = event.pathParameters!;
-      return `${JIRA_BASE}/${ji}/rest/api/2/issue/${issueId}`;
+    buildUrl: (jira, event) => issueUrl(jira, event.pathParameters!.issueId!),
+    // Worklog changes show up in the issue, so they invalidate it
+    cache: {
+      ttlSeconds: ISSUE_CACHE_TTL_SECONDS,
+      tags: (event, data) =>
+        issueTags(event.pathParameters!.issueId, data?.id, data?.key),
     },
   },
 
@@ -201,10 +370,12 @@ const ROUTES: Record<string, RouteConfig> = {
     method: 'PUT',
     path: 'project-worklogs/{worklogId}',
     requiredPathParams: ['issueId'],
-    buildUrl: (ji, event) => {
+    buildUrl: (jira, event) => {
       const { issueId } = event.pathParameters!;
-      return `${JIRA_BASE}/${ji}/rest/tempo/1.0/project-worklogs/${issueId}`;
+      return `${jira.baseUrl}/rest/tempo/1.0/project-worklogs/${issueId}`;
     },
+    // The path holds a worklog ID (API Gateway names it after the DELETE
+    // route's issueId), so there is no issue to invalidate
   },
 
   'POST /timesheet/projects': {
@@ -218,7 +389,8 @@ const ROUTES: Record<string, RouteConfig> = {
       'startIndex',
     ],
     contentType: 'application/x-www-form-urlencoded',
-    buildUrl: (ji) => `${JIRA_BASE}/${ji}/rest/issueNav/1/issueTable`,
+    idempotent: true,
+    buildUrl: (jira) => `${jira.baseUrl}/rest/issueNav/1/issueTable`,
     buildBody: (event) => {
       const body = parseBodyToJson(event.body) || {};
       const searchParams = new URLSearchParams({
@@ -232,6 +404,544 @@ const ROUTES: Record<string, RouteConfig> = {
   },
 };
 
+/**
+ * Outcome of one batch log-work entry
+ */
+interface LogWorkResult {
+  index: number;
+  status:
+    | 'created'
+    | 'failed'
+    | 'skipped'
+    | 'rolled-back'
+    | 'rollback-failed'
+    | 'checked';
+  /** Tempo's response for created entries */
+  data?: any;
+  /** Dry-run verdict for checked entries */
+  check?: LogWorkCheck;
+  /** Upstream status code of a failed entry or rollback */
+  statusCode?: number;
+  error?: string;
+}
+
+/**
+ * Run task(0..count-1) with at most `limit` tasks in flight
+ * @param shouldStop Checked before each task starts; true leaves the rest unstarted
+ */
+async function runWithConcurrency(
+  count: number,
+  limit: number,
+  task: (index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < count && !shouldStop()) {
+      await task(next++);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, worker));
+}
+
+/**
+ * Whether an issue exists, through the same lookup as GET /timesheet/issue/{issueId}
+ */
+async function issueExists(
+  { jira, client, headers, deadline }: RouteContext,
+  issueKey: string
+): Promise<boolean> {
+  try {
+    await client.request({
+      method: 'GET',
+      url: issueUrl(jira, encodeURIComponent(issueKey)),
+      headers,
+      deadline,
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof UpstreamError && error.statusCode === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * A user's worklogs on one day, through the same lookup as
+ * GET /timesheet/timesheet-dates
+ * @returns The worklogs, or null if Tempo's response is not a list of them
+ */
+async function getDayWorklogs(
+  { jira, client, headers, deadline }: RouteContext,
+  username: string,
+  date: string
+): Promise<WorklogTiming[] | null> {
+  const url = new URL(timesheetDatesUrl(jira));
+  url.searchParams.set('fromDate', date);
+  url.searchParams.set('toDate', date);
+  url.searchParams.set('user', username);
+  const response = await client.request({
+    method: 'GET',
+    url: url.toString(),
+    headers,
+    deadline,
+  });
+  // Tempo answers with the list, or with the list wrapped in data
+  const data: any = response.data;
+  const worklogs = Array.isArray(data) ? data : data?.data;
+  if (!Array.isArray(worklogs)) {
+    console.warn(`Unexpected worklog list for ${username} on ${date}:`, data);
+    return null;
+  }
+  return worklogs;
+}
+
+/**
+ * Time span of a worklog, when its start time is known
+ */
+function worklogInterval(
+  worklog: WorklogTiming
+): { start: number; end: number } | null {
+  const start = worklog.startDate?.includes('T')
+    ? Date.parse(worklog.startDate)
+    : NaN;
+  if (isNaN(start) || !worklog.timeSpentSeconds) {
+    return null;
+  }
+  return { start, end: start + worklog.timeSpentSeconds * 1000 };
+}
+
+function toHours(seconds: number): number {
+  return Math.round((seconds / 3600) * 100) / 100;
+}
+
+/**
+ * Check log-work entries without writing anything: the issue must exist, and
+ * each entry is compared with the user's worklogs that day and with the
+ * entries before it for overlaps and days over MAX_HOURS_PER_DAY
+ */
+async function checkLogWork(
+  context: RouteContext,
+  entries: WorklogTiming[]
+): Promise<LogWorkCheck[]> {
+  const days = entries.map((entry) =>
+    DATE_PATTERN.test(entry.startDate) ? entry.startDate.slice(0, 10) : null
+  );
+  const dayKey = (entry: WorklogTiming, date: string) =>
+    `${entry.username}|${date}`;
+
+  // Look up each issue and user-day once, BATCH_CONCURRENCY at a time
+  const issueKeys = [...new Set(entries.map((entry) => entry.issueKey!))];
+  const userDays = [
+    ...new Map(
+      entries.flatMap((entry, i) =>
+        days[i] ? [[dayKey(entry, days[i]!), [entry.username!, days[i]!]]] : []
+      )
+    ),
+  ];
+  const issuesFound = new Map<string, boolean>();
+  const dayWorklogs = new Map<string, WorklogTiming[]>();
+  // Days whose worklogs Tempo did not return as a list
+  const unreadableDays = new Set<string>();
+  await runWithConcurrency(
+    issueKeys.length + userDays.length,
+    BATCH_CONCURRENCY,
+    async (i) => {
+      if (i < issueKeys.length) {
+        const issueKey = issueKeys[i];
+        issuesFound.set(issueKey, await issueExists(context, issueKey));
+      } else {
+        const [key, [username, date]] = userDays[i - issueKeys.length];
+        const worklogs = await getDayWorklogs(context, username, date);
+        if (!worklogs) {
+          unreadableDays.add(key);
+        }
+        dayWorklogs.set(key, worklogs ?? []);
+      }
+    }
+  );
+
+  return entries.map((entry, i) => {
+    const date = days[i];
+    const warnings: LogWorkCheck['warnings'] = [];
+    const issueFound = issuesFound.get(entry.issueKey!)!;
+    if (!issueFound) {
+      warnings.push({
+        code: 'ISSUE_NOT_FOUND',
+        detail: `Issue ${entry.issueKey} does not exist or is not visible to you`,
+      });
+    }
+    if (!date) {
+      warnings.push({
+        code: 'INVALID_START_DATE',
+        detail: 'startDate must start with a YYYY-MM-DD date',
+      });
+      return {
+        issueFound,
+        date: entry.startDate,
+        loggedHours: 0,
+        totalHours: 0,
+        warnings,
+      };
+    }
+
+    const key = dayKey(entry, date);
+    if (unreadableDays.has(key)) {
+      warnings.push({
+        code: 'WORKLOGS_UNAVAILABLE',
+        detail: `Could not read the worklogs logged on ${date}, so only this request's entries were checked for overlaps and hours`,
+      });
+    }
+    const worklogs = dayWorklogs.get(key)!;
+    const loggedSeconds = worklogs.reduce(
+      (sum, worklog) => sum + (worklog.timeSpentSeconds || 0),
+      0
+    );
+    const totalSeconds = loggedSeconds + (entry.timeSpentSeconds || 0);
+
+    const interval = worklogInterval(entry);
+    const overlaps =
+      interval &&
+      worklogs.some((worklog) => {
+        const other = worklogInterval(worklog);
+        return (
+          other && other.start < interval.end && interval.start < other.end
+        );
+      });
+    if (overlaps) {
+      warnings.push({
+        code: 'OVERLAP',
+        detail: `Overlaps another worklog on ${date}`,
+      });
+    }
+    if (totalSeconds > MAX_HOURS_PER_DAY * 3600) {
+      warnings.push({
+        code: 'OVER_8_HOURS',
+        detail: `${toHours(totalSeconds)} hours would be logged on ${date}`,
+      });
+    }
+
+    // Later entries of the batch see this one as already logged
+    worklogs.push(entry);
+    return {
+      issueFound,
+      date,
+      loggedHours: toHours(loggedSeconds),
+      totalHours: toHours(totalSeconds),
+      warnings,
+    };
+  });
+}
+
+/**
+ * Status code and message of a failed call: UpstreamError's mapped status,
+ * or 500 for anything else
+ */
+function describeUpstreamError(error: any): {
+  statusCode: number;
+  error: string;
+  retryAfterSeconds?: number;
+} {
+  if (error instanceof UpstreamError) {
+    return {
+      statusCode: error.statusCode,
+      error: error.message,
+      ...(error.retryAfterSeconds
+        ? { retryAfterSeconds: error.retryAfterSeconds }
+        : {}),
+    };
+  }
+  return { statusCode: 500, error: error.message || 'Internal server error' };
+}
+
+/**
+ * The ids that DELETE /timesheet/project-worklogs/{issueId}/{timesheetId}
+ * takes, read from Tempo's create-log-work response: the new worklog, with
+ * its id and issueId. Tempo does not document this response, so atomic
+ * batches check it on their first entry before creating the others.
+ * @returns The ids, or null if the response does not have them
+ */
+function createdWorklogIds(
+  data: any
+): { issueId: string; timesheetId: string } | null {
+  return data?.id && data?.issueId
+    ? { issueId: String(data.issueId), timesheetId: String(data.id) }
+    : null;
+}
+
+/**
+ * Delete a worklog created earlier in an atomic batch
+ */
+async function deleteCreatedWorklog(
+  { jira, client, headers, deadline }: RouteContext,
+  result: LogWorkResult
+): Promise<void> {
+  const ids = createdWorklogIds(result.data);
+  if (!ids) {
+    throw new Error('Tempo did not return the id of the created worklog');
+  }
+
+  await client.request({
+    method: 'DELETE',
+    url: `${jira.baseUrl}/rest/tempo/1.0/project-worklogs/${ids.issueId}/${ids.timesheetId}`,
+    headers,
+    deadline,
+  });
+}
+
+/**
+ * POST /timesheet/logwork/batch: create each entry like POST /timesheet/logwork,
+ * BATCH_CONCURRENCY at a time. Creates are only retried when throttled,
+ * since a failed create may still have written the worklog. With
+ * atomic: true, invalid entries reject the whole batch and the first failed
+ * entry stops the rest and deletes the worklogs already created.
+ *
+ * Entries stop being started when the deadline gets close; they are left
+ * skipped, and an atomic batch is then rolled back as if one had failed.
+ */
+async function logWorkBatch(
+  context: RouteContext
+): Promise<APIGatewayProxyResult> {
+  const { client, url, headers, body, deadline } = context;
+  const { entries, atomic = false, dryRun = false } = body;
+
+  if (
+    !Array.isArray(entries) ||
+    entries.length === 0 ||
+    entries.length > MAX_BATCH_ENTRIES
+  ) {
+    return errorResponse(
+      400,
+      `entries must be an array of 1 to ${MAX_BATCH_ENTRIES} log-work entries`
+    );
+  }
+  if (typeof atomic !== 'boolean') {
+    return errorResponse(400, 'atomic must be a boolean');
+  }
+  if (typeof dryRun !== 'boolean') {
+    return errorResponse(400, 'dryRun must be a boolean');
+  }
+
+  const results: LogWorkResult[] = entries.map((entry: any, index) => {
+    const missing =
+      entry && typeof entry === 'object'
+        ? LOG_WORK_REQUIRED_FIELDS.filter((f) => !entry[f])
+        : LOG_WORK_REQUIRED_FIELDS;
+    return missing.length > 0
+      ? {
+          index,
+          status: 'failed',
+          statusCode: 400,
+          error: `Missing required fields: ${missing.join(', ')}`,
+        }
+      : { index, status: 'skipped' };
+  });
+
+  const invalid = results.filter((result) => result.status === 'failed');
+  if (atomic && invalid.length > 0) {
+    return errorResponse(
+      400,
+      `Invalid entries: ${invalid.map((r) => `#${r.index} ${r.error}`).join('; ')}`
+    );
+  }
+
+  const count = (status: LogWorkResult['status']) =>
+    results.filter((result) => result.status === status).length;
+
+  if (dryRun) {
+    const valid = results.filter((result) => result.status !== 'failed');
+    const checks = await checkLogWork(
+      context,
+      valid.map((result) => entries[result.index])
+    );
+    valid.forEach((result, i) => {
+      result.status = 'checked';
+      result.check = checks[i];
+    });
+    return successResponse({
+      dryRun: true,
+      results,
+      checked: count('checked'),
+      failed: count('failed'),
+      warnings: checks.reduce((sum, check) => sum + check.warnings.length, 0),
+    });
+  }
+
+  const createDeadline = deadline - (atomic ? BATCH_ROLLBACK_TIME_MS : 0);
+  let aborted = false;
+  let timedOut = false;
+
+  const createEntry = async (index: number) => {
+    if (results[index].status === 'failed') {
+      return;
+    }
+    try {
+      const response = await client.request({
+        method: 'POST',
+        url,
+        headers,
+        data: entries[index],
+        deadline: createDeadline,
+      });
+      results[index] = { index, status: 'created', data: response.data };
+      // Without the new worklog's ids nothing could be rolled back
+      if (atomic && !createdWorklogIds(response.data)) {
+        aborted = true;
+      }
+    } catch (error) {
+      results[index] = {
+        index,
+        status: 'failed',
+        ...describeUpstreamError(error),
+      };
+      aborted = atomic;
+    }
+  };
+  const shouldStop = () => {
+    timedOut ||= Date.now() + BATCH_CREATE_TIME_MS > createDeadline;
+    return aborted || timedOut;
+  };
+
+  // Atomic batches create their first entry alone, so a response that
+  // cannot be rolled back stops the batch after one worklog
+  const first = atomic ? 1 : 0;
+  await runWithConcurrency(first, 1, createEntry, shouldStop);
+  await runWithConcurrency(
+    entries.length - first,
+    BATCH_CONCURRENCY,
+    (i) => createEntry(first + i),
+    shouldStop
+  );
+
+  if (timedOut) {
+    results
+      .filter((result) => result.status === 'skipped')
+      .forEach((result) => {
+        result.error = 'Not started before the request deadline';
+      });
+    aborted = atomic;
+  }
+
+  if (aborted) {
+    const created = results.filter((result) => result.status === 'created');
+    await runWithConcurrency(created.length, BATCH_CONCURRENCY, async (i) => {
+      const result = created[i];
+      try {
+        await deleteCreatedWorklog(context, result);
+        result.status = 'rolled-back';
+      } catch (error) {
+        result.status = 'rollback-failed';
+        Object.assign(result, describeUpstreamError(error));
+      }
+    });
+  }
+
+  return successResponse({
+    results,
+    created: count('created'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+    timedOut,
+    ...(atomic
+      ? {
+          committed: !aborted,
+          rolledBack: count('rolled-back'),
+          rollbackFailed: count('rollback-failed'),
+        }
+      : {}),
+  });
+}
+
+/**
+ * The upstream client of a Jira instance, created on first use
+ */
+function getUpstreamClient(jiraInstance: JiraInstance): UpstreamClient {
+  let client = upstreamClients.get(jiraInstance);
+  if (!client) {
+    client = new UpstreamClient(`Jira ${jiraInstance}`);
+    upstreamClients.set(jiraInstance, client);
+  }
+  return client;
+}
+
+/**
+ * Parses the Jira instance registry and checks every entry, since the SSM
+ * parameter it may come from is only read at deploy time
+ * @param json The registry JSON
+ * @returns The registry, or why it is invalid
+ */
+function loadJiraRegistry(json: string | undefined): {
+  registry?: JiraInstanceRegistry;
+  error?: string;
+} {
+  let registry: unknown;
+  try {
+    registry = JSON.parse(json || '{}');
+  } catch {
+    return { error: 'not valid JSON' };
+  }
+  if (!registry || typeof registry !== 'object' || Array.isArray(registry)) {
+    return { error: 'expected an object keyed by instance ID' };
+  }
+
+  for (const [id, config] of Object.entries(registry)) {
+    if (
+      typeof config?.baseUrl !== 'string' ||
+      !/^https?:\/\/[^/]/.test(config.baseUrl)
+    ) {
+      return { error: `${id}: baseUrl must be an http(s) URL` };
+    }
+    if (
+      !Object.prototype.hasOwnProperty.call(JIRA_API_PATHS, config.apiFlavour)
+    ) {
+      return {
+        error: `${id}: apiFlavour must be one of ${Object.keys(JIRA_API_PATHS).join(', ')}`,
+      };
+    }
+    if (!JIRA_HEADER_PROFILES.includes(config.headerProfile)) {
+      return {
+        error: `${id}: headerProfile must be one of ${JIRA_HEADER_PROFILES.join(', ')}`,
+      };
+    }
+  }
+
+  return { registry: registry as JiraInstanceRegistry };
+}
+
+/**
+ * Look up a Jira instance in the registry
+ * @returns The instance, or undefined for IDs the registry does not know
+ */
+function resolveJiraInstance(
+  jiraInstance: JiraInstance
+): JiraInstanceConfig | undefined {
+  return Object.prototype.hasOwnProperty.call(JIRA_INSTANCES, jiraInstance)
+    ? JIRA_INSTANCES[jiraInstance]
+    : undefined;
+}
+
+/**
+ * Cache key of a response: the Jira instance, a hash of the token (responses
+ * depend on the caller's permissions) and a hash of the upstream URL
+ */
+function cacheKey(
+  jiraInstance: JiraInstance,
+  token: string,
+  url: string
+): string {
+  const hash = (value: string) =>
+    createHash('sha256').update(value).digest('base64url');
+  return `${jiraInstance}#${hash(token)}#${hash(url)}`;
+}
+
+/**
+ * Prefixes route cache tags with the Jira instance they belong to
+ */
+function instanceTags(jiraInstance: JiraInstance, tags: string[]): string[] {
+  return tags.map((tag) => `${jiraInstance}:${tag}`);
+}
+
 function resolveRoute(event: APIGatewayProxyEvent): RouteConfig | undefined {
   const key = `${event.httpMethod} ${event.resource}`;
   return ROUTES[key];
@@ -248,8 +958,30 @@ function errorResponse(
   };
 }
 
+function successResponse(
+  data: any,
+  headers: Record<string, string> = {}
+): APIGatewayProxyResult {
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ success: true, data }),
+  };
+}
+
 export const handler = withCors(
-  async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  async (
+    event: APIGatewayProxyEvent,
+    lambdaContext?: Context
+  ): Promise<APIGatewayProxyResult> => {
+    const deadline =
+      Date.now() +
+      Math.min(
+        lambdaContext?.getRemainingTimeInMillis() ?? Infinity,
+        API_GATEWAY_TIMEOUT_MS
+      ) -
+      RESPONSE_MARGIN_MS;
+
     try {
       // 1. Auth extraction
       const authHeader =
@@ -308,60 +1040,132 @@ export const handler = withCors(
         }
       }
 
-      // 6. Build URL and execute request
-      const jiraInstance = ((body?.jiraInstance as JiraInstance) ||
-        (event.queryStringParameters?.jiraInstance as JiraInstance) ||
-        'jiradc') as JiraInstance;
-      const url = route.buildUrl(jiraInstance, event);
-      const headers = createJiraHeaders(token, jiraInstance);
+      // 6. Resolve the Jira instance
+      if (JIRA_REGISTRY.error) {
+        return errorResponse(500, 'Jira instance registry is misconfigured');
+      }
+      const requestedInstance: JiraInstance | undefined =
+        body?.jiraInstance || event.queryStringParameters?.jiraInstance;
+      const jiraInstance = requestedInstance || DEFAULT_INSTANCE;
+      const jira = resolveJiraInstance(jiraInstance);
+      if (!jira && !requestedInstance) {
+        return errorResponse(
+          500,
+          `Default jiraInstance ${jiraInstance} is not in the registry`
+        );
+      }
+      if (!jira) {
+        return errorResponse(
+          400,
+          `Unknown jiraInstance: ${jiraInstance}. Expected one of: ${Object.keys(JIRA_INSTANCES).join(', ')}`
+        );
+      }
+
+      // 7. Build URL and execute request
+      const url = route.buildUrl(jira, event);
+      const headers = createJiraHeaders(token, jira);
+      const client = getUpstreamClient(jiraInstance);
 
       console.log(`[${route.method}] ${url}`);
 
-      let response;
+      // Cache-Control: no-cache skips the lookup but still refreshes the entry
+      const key = route.cache && cacheKey(jiraInstance, token, url);
+      if (
+        key &&
+        !/no-cache/i.test(getHeader(event.headers, 'Cache-Control') || '')
+      ) {
+        const cached = await responseCache.get(key);
+        if (cached) {
+          console.log(`Cache hit (${cached.source})`);
+          return successResponse(cached.data, {
+            'X-Cache': `HIT from ${cached.source}`,
+          });
+        }
+      }
+
+      // Read before execute hooks, which may rewrite the body
+      const invalidates = instanceTags(
+        jiraInstance,
+        route.invalidates?.(event, body) ?? []
+      );
+
+      const executed = await route.execute?.({
+        event,
+        jira,
+        client,
+        url,
+        headers,
+        body,
+        deadline,
+      });
+      if (executed) {
+        if (executed.statusCode < 400) {
+          await responseCache.invalidate(invalidates);
+        }
+        return executed;
+      }
+
+      let requestHeaders = headers;
       if (route.method === 'POST') {
         body = route.buildBody
           ? route.buildBody(event)
           : body || parseBodyToJson(event.body);
-        const requestHeaders = route.contentType
-          ? { ...headers, 'Content-Type': route.contentType }
-          : headers;
-        response = await axios.post(url, body, {
-          headers: requestHeaders,
-          timeout: 15000,
-        });
+        if (route.contentType) {
+          requestHeaders = { ...headers, 'Content-Type': route.contentType };
+        }
       } else if (route.method === 'PUT') {
         body = body || parseBodyToJson(event.body);
-        response = await axios.put(url, body, { headers, timeout: 15000 });
-      } else if (route.method === 'DELETE') {
-        response = await axios.delete(url, { headers, timeout: 15000 });
       } else {
-        response = await axios.get(url, { headers, timeout: 15000 });
+        body = undefined;
       }
 
+      const requestedAt = Date.now();
+      const response = await client.request({
+        method: route.method,
+        url,
+        headers: requestHeaders,
+        data: body,
+        idempotent: route.idempotent,
+        deadline,
+      });
+
       console.log(`Response status: ${response.status}`);
 
-      return {
-        statusCode: 200,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ success: true, data: response.data }),
-      };
+      await responseCache.invalidate(invalidates);
+
+      if (key && route.cache) {
+        await responseCache.set(
+          key,
+          response.data,
+          route.cache.ttlSeconds,
+          instanceTags(
+            jiraInstance,
+            route.cache.tags?.(event, response.data) ?? []
+          ),
+          requestedAt
+        );
+        return successResponse(response.data, { 'X-Cache': 'MISS' });
+      }
+
+      return successResponse(response.data);
     } catch (error: any) {
       console.error('Proxy error:', error);
 
-      const statusCode = error.response?.status || 500;
-      const errorMessage =
-        error.response?.data || error.message || 'Internal server error';
+      const {
+        statusCode,
+        error: message,
+        retryAfterSeconds,
+      } = describeUpstreamError(error);
 
       return {
         statusCode,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          error:
-            typeof errorMessage === 'string'
-              ? errorMessage
-              : JSON.stringify(errorMessage),
-          status: statusCode,
-        }),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(retryAfterSeconds
+            ? { 'Retry-After': String(retryAfterSeconds) }
+            : {}),
+        },
+        body: JSON.stringify({ error: message, status: statusCode }),
       };
     }
   }
@@ -4,259 +4,2383 @@ import {
   PutItemCommand,
   GetItemCommand,
   DeleteItemCommand,
-  ScanCommand,
+  QueryCommand,
+  TransactWriteItemsCommand,
+  UpdateItemCommand,
 } from '@aws-sdk/client-dynamodb';
+import {
+  CloudFrontClient,
+  CreateInvalidationCommand,
+} from '@aws-sdk/client-cloudfront';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import QRCode from 'qrcode';
 import {
   successResponse,
   createdResponse,
   badRequestResponse,
   notFoundResponse,
+  conflictResponse,
   serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  ErrorDetail,
 } from '../../shared/utils/responseUtils';
-import { parseBodyToJson } from '../../shared/utils/httpUtils';
+import {
+  getHeader,
+  loggableEvent,
+  parseBodyToJson,
+} from '../../shared/utils/httpUtils';
+import { parseCsvRecords, toCsv } from '../../shared/utils/csvUtils';
+import dynamoDBService from '../../shared/services/dynamoDbClient';
+import {
+  inspectDestinationUrl,
+  loadUrlPolicy,
+  validateDestinationUrl,
+} from '../../shared/utils/urlPolicy';
 import { withCors } from '../../shared/utils/corsUtils';
-import { UrlData } from '../../shared/models/urlShortenerTypes';
-
-import { randomBytes } from 'crypto';
+import {
+  RateLimitBucket,
+  withRateLimit,
+} from '../../shared/utils/rateLimitUtils';
+import {
+  generateApiKey,
+  getApiKeyFromRequest,
+  hashApiKeySecret,
+  parseApiKey,
+  safeEqual,
+} from '../../shared/utils/apiKeyUtils';
+import { decodeCursor, encodeCursor } from '../../shared/utils/cursorUtils';
+import { hashPassword } from '../../shared/utils/passwordUtils';
+import {
+  normalizeTargetingRules,
+  validateTargetingRules,
+} from '../../shared/utils/targetingUtils';
+import {
+  normalizeVariants,
+  validateVariants,
+} from '../../shared/utils/variantUtils';
+import {
+  validateQueryMode,
+  validateRedirectType,
+  validateUtm,
+} from '../../shared/utils/redirectUtils';
+import {
+  generateShortCode,
+  resolveAlphabet,
+  shortCodeLengthForAttempt,
+  validateCustomCode,
+} from '../../shared/utils/shortCodeUtils';
+import {
+  applyExpiry,
+  linkExpiresAt,
+  validateOwnerEmail,
+} from '../../shared/utils/expiryUtils';
+import {
+  ApiKeyRecord,
+  ApiKeyRole,
+  Caller,
+  ClickEvent,
+  DeviceClass,
+  QueryMode,
+  RedirectType,
+  TargetingRule,
+  UrlChangeRecord,
+  UrlData,
+  UtmParams,
+  Variant,
+} from '../../shared/models/urlShortenerTypes';
+import {
+  API_KEY_NAME_MAX_LENGTH,
+  API_KEY_OWNER_MAX_LENGTH,
+  DEFAULT_EXPIRY_GRACE_DAYS,
+  DEFAULT_REDIRECT_TYPE,
+  DEFAULT_SHORTEN_LIMIT_PER_CALLER,
+  DEFAULT_SHORTEN_LIMIT_PER_IP,
+  DEFAULT_STATS_RANGE_DAYS,
+  DESTINATION_CHECK_BUDGET_MS,
+  LINK_PASSWORD_MAX_LENGTH,
+  LINK_PASSWORD_MIN_LENGTH,
+  MAX_STATS_RANGE_DAYS,
+  MAX_SHORT_CODE_ATTEMPTS,
+  QR_CODE_FORMATS,
+  QR_DEFAULT_MARGIN,
+  QR_DEFAULT_SIZE,
+  QR_ERROR_CORRECTION_LEVELS,
+  QR_MAX_MARGIN,
+  QR_MAX_SIZE,
+  QR_MIN_SIZE,
+  RESERVED_SHORT_CODES,
+  SHORT_CODE_LENGTH,
+  SHORTEN_RATE_WINDOW_SECONDS,
+} from '../../shared/constants/constants';
 
 // Initialize DynamoDB Client
 const dynamoDbClient = new DynamoDBClient({});
+const cloudFrontClient = new CloudFrontClient({});
 const TABLE_NAME = process.env.URLIFY_TABLE_NAME!;
+const CURSOR_SECRET = process.env.URLIFY_CURSOR_SECRET!;
+const DISTRIBUTION_ID = process.env.URLIFY_DISTRIBUTION_ID;
+const ADMIN_API_KEY = process.env.URLIFY_ADMIN_API_KEY;
+// Owner name of the bootstrap admin key
+const BOOTSTRAP_ADMIN_ID = 'admin';
+// Links per caller / per client IP per SHORTEN_RATE_WINDOW_SECONDS
+const SHORTEN_LIMIT_PER_CALLER =
+  parseInt(process.env.SHORTEN_LIMIT_PER_CALLER || '') ||
+  DEFAULT_SHORTEN_LIMIT_PER_CALLER;
+const SHORTEN_LIMIT_PER_IP =
+  parseInt(process.env.SHORTEN_LIMIT_PER_IP || '') ||
+  DEFAULT_SHORTEN_LIMIT_PER_IP;
+// Days expired links keep answering 410 before DynamoDB deletes them
+const EXPIRY_GRACE_DAYS =
+  parseInt(process.env.EXPIRY_GRACE_DAYS || '') || DEFAULT_EXPIRY_GRACE_DAYS;
+const ENTITY_TYPE_INDEX = 'EntityTypeCreatedAtIndex';
+const CREATED_BY_INDEX = 'CreatedByCreatedAtIndex';
 
 // Constants
-const SHORT_CODE_LENGTH = 6;
 const BASE_URL = process.env.BASE_URL || 'https://short.url';
 const DEFAULT_TTL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+// Upper bound on index reads per list request when filters discard items
+const MAX_LIST_QUERY_PAGES = 5;
+const MAX_BATCH_SIZE = 250;
+// Conditional puts (and password hashes) in flight per batch or import
+const BATCH_CREATE_CONCURRENCY = 10;
+const MAX_WILDCARD_INVALIDATIONS = 10;
+// Links per export response; more are fetched with the returned cursor
+const MAX_EXPORT_ROWS = 2000;
+const EXPORT_FORMATS = ['json', 'csv'];
+
+/**
+ * Export columns; utm, targeting and variants hold JSON in CSV files
+ */
+const EXPORT_COLUMNS = [
+  'shortCode',
+  'shortUrl',
+  'originalUrl',
+  'createdBy',
+  'ownerEmail',
+  'createdAt',
+  'expiresAt',
+  'enabled',
+  'clicks',
+  'humanClicks',
+  'uniqueVisitors',
+  'lastAccessed',
+  'maxClicks',
+  'passwordProtected',
+  'redirectType',
+  'queryMode',
+  'utm',
+  'preview',
+  'targeting',
+  'variants',
+] as const;
+const CSV_JSON_COLUMNS = ['utm', 'targeting', 'variants'];
+const CSV_NUMBER_COLUMNS = ['maxClicks', 'redirectType'];
+const CSV_BOOLEAN_COLUMNS = ['enabled', 'preview'];
 
 /**
- * Generate a random short code
+ * Validated input for creating a short URL
  */
-function generateShortCode(length = SHORT_CODE_LENGTH): string {
-  return randomBytes(length)
-    .toString('base64')
-    .replace(/[^a-zA-Z0-9]/g, '')
-    .substring(0, length);
+interface ShortenInput {
+  originalUrl: string;
+  createdBy?: string;
+  /** Address warned before the link expires */
+  ownerEmail?: string;
+  ttlDays?: number;
+  customCode?: string;
+  maxClicks?: number;
+  /** Plain-text unlock password; only its hash is stored */
+  password?: string;
+  redirectType?: RedirectType;
+  queryMode?: QueryMode;
+  utm?: UtmParams;
+  preview?: boolean;
+  targeting?: TargetingRule[];
+  variants?: Variant[];
+  /** Imported links may start disabled */
+  enabled?: boolean;
 }
 
 /**
- * Validate URL format
+ * Fields that PATCH /urlify/url/{shortCode} can change
+ */
+interface UrlUpdate {
+  originalUrl?: string;
+  /** Days from now, or null to remove the expiry */
+  ttlDays?: number | null;
+  /** null stops expiry warnings */
+  ownerEmail?: string | null;
+  enabled?: boolean;
+  redirectType?: RedirectType;
+  queryMode?: QueryMode;
+  /** null removes the UTM settings */
+  utm?: UtmParams | null;
+  preview?: boolean;
+  /** null or [] removes the targeting rules */
+  targeting?: TargetingRule[] | null;
+  /** null or [] removes the A/B split */
+  variants?: Variant[] | null;
+}
+
+/**
+ * UrlData attributes PATCH can change; each edit records their old and new
+ * values in the link's history
+ */
+const EDITABLE_FIELDS = [
+  'OriginalUrl',
+  'ExpiresAt',
+  'OwnerEmail',
+  'Enabled',
+  'RedirectType',
+  'QueryMode',
+  'Utm',
+  'PreviewMode',
+  'TargetingRules',
+  'Variants',
+] as const;
+
+/**
+ * Filters accepted by GET /urlify/urls
+ */
+interface UrlListFilters {
+  createdBy?: string;
+  /** Inclusive lower bound on CreatedAt (ms) */
+  createdFrom?: number;
+  /** Inclusive upper bound on CreatedAt (ms) */
+  createdTo?: number;
+  /** Only links that expire before this time (ms) */
+  expiringBefore?: number;
+  minClicks?: number;
+  /** Case-sensitive substring of OriginalUrl */
+  search?: string;
+}
+const SHORT_CODE_ALPHABET = resolveAlphabet(process.env.SHORT_CODE_ALPHABET);
+const BASE_SHORT_CODE_LENGTH =
+  parseInt(process.env.SHORT_CODE_LENGTH || '') || SHORT_CODE_LENGTH;
+const URL_POLICY = loadUrlPolicy();
+
+/**
+ * Validate URL format and the offline URL policy rules
  */
 function isValidUrl(url: string): boolean {
+  return validateDestinationUrl(url, URL_POLICY) === null;
+}
+
+/**
+ * Every destination a new link can redirect to
+ */
+function linkDestinations(input: ShortenInput): string[] {
+  return [
+    input.originalUrl,
+    ...(input.targeting || []).map((rule) => rule.destination),
+    ...(input.variants || []).map((variant) => variant.destination),
+  ];
+}
+
+/**
+ * Run the network URL policy checks on each of a link's destinations, in
+ * parallel and within DESTINATION_CHECK_BUDGET_MS, so links with many
+ * targeting rules and variants still answer before the API Gateway timeout
+ * @returns The error of the first failing destination, or null if every one passes
+ */
+async function inspectDestinations(
+  urls: string[],
+  options?: { followRedirects?: boolean }
+): Promise<ErrorDetail | null> {
+  const deadline = Date.now() + DESTINATION_CHECK_BUDGET_MS;
+  const urlErrors = await Promise.all(
+    urls.map((url) =>
+      inspectDestinationUrl(url, URL_POLICY, { ...options, deadline })
+    )
+  );
+  return urlErrors.find((urlError) => urlError) ?? null;
+}
+
+/**
+ * Message for a rejected destination URL
+ */
+function destinationErrorMessage(error: ErrorDetail): string {
+  return error.code === 'INVALID_URL'
+    ? 'Invalid URL format'
+    : 'URL not allowed by policy';
+}
+
+/**
+ * Calculate the expiry timestamp in ms (days from now)
+ */
+function calculateExpiresAt(days: number): number {
+  return Math.floor(Date.now() + days * DAY_MS);
+}
+
+/**
+ * Format a link's expiry for API responses
+ */
+function formatExpiresAt(urlData: UrlData): string | null {
+  const expiresAt = linkExpiresAt(urlData);
+  return expiresAt ? new Date(expiresAt).toISOString() : null;
+}
+
+/**
+ * Store URL data, failing if the short code is already taken
+ * @returns false when the short code collided with an existing item
+ */
+async function putUrlIfAbsent(urlData: UrlData): Promise<boolean> {
   try {
-    new URL(url);
+    await dynamoDbClient.send(
+      new PutItemCommand({
+        TableName: TABLE_NAME,
+        Item: marshall(urlData),
+        ConditionExpression: 'attribute_not_exists(PK)', // Ensure no collision
+      })
+    );
     return true;
-  } catch {
-    return false;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
   }
 }
 
 /**
- * Calculate TTL timestamp (days from now)
+ * Validate the optional redirect settings shared by shorten and PATCH bodies
+ * (a null utm, which PATCH uses to remove the settings, is allowed)
+ * @returns The message and detail of the first error, or null if valid
  */
-function calculateTTL(days: number): number {
-  return Math.floor(Date.now() / 1000) + days * 24 * 60 * 60;
+function validateRedirectSettings(settings: {
+  redirectType?: unknown;
+  queryMode?: unknown;
+  utm?: unknown;
+  preview?: unknown;
+  targeting?: unknown;
+  variants?: unknown;
+}): { message: string; error: ErrorDetail } | null {
+  const { redirectType, queryMode, utm, preview, targeting, variants } =
+    settings;
+
+  const redirectTypeError =
+    redirectType !== undefined && validateRedirectType(redirectType);
+  if (redirectTypeError) {
+    return { message: 'Invalid redirectType value', error: redirectTypeError };
+  }
+
+  const queryModeError =
+    queryMode !== undefined && validateQueryMode(queryMode);
+  if (queryModeError) {
+    return { message: 'Invalid queryMode value', error: queryModeError };
+  }
+
+  const utmError = utm !== undefined && utm !== null && validateUtm(utm);
+  if (utmError) {
+    return { message: 'Invalid utm value', error: utmError };
+  }
+
+  if (preview !== undefined && typeof preview !== 'boolean') {
+    return {
+      message: 'Invalid preview value',
+      error: { code: 'INVALID_PREVIEW', detail: 'preview must be a boolean' },
+    };
+  }
+
+  const targetingError =
+    targeting !== undefined &&
+    targeting !== null &&
+    validateTargetingRules(targeting, URL_POLICY);
+  if (targetingError) {
+    return { message: 'Invalid targeting value', error: targetingError };
+  }
+
+  const variantsError =
+    variants !== undefined &&
+    variants !== null &&
+    !(Array.isArray(variants) && variants.length === 0) &&
+    validateVariants(variants, URL_POLICY);
+  if (variantsError) {
+    return { message: 'Invalid variants value', error: variantsError };
+  }
+
+  return null;
 }
 
 /**
- * Create a shortened URL
+ * Validate a shorten request body (single or one batch item)
+ * @returns The validated input, or the message and detail of the first error
  */
-async function createShortUrl(
-  originalUrl: string,
-  createdBy?: string,
-  ttlDays?: number
-): Promise<UrlData> {
-  // Validate URL
-  if (!isValidUrl(originalUrl)) {
-    throw new Error('Invalid URL format');
+function parseShortenRequest(
+  body: any
+): { input: ShortenInput } | { message: string; error: ErrorDetail } {
+  if (!body || !body.originalUrl) {
+    return {
+      message: 'Missing required field: originalUrl',
+      error: { code: 'MISSING_FIELD', detail: 'Original URL is required' },
+    };
   }
 
-  const shortCode = generateShortCode();
-  const now = Date.now();
+  const {
+    originalUrl,
+    createdBy,
+    ownerEmail,
+    autoDelete,
+    ttlDays,
+    customCode,
+    maxClicks,
+    password,
+    redirectType,
+    queryMode,
+    utm,
+    preview,
+    targeting,
+    variants,
+  } = body;
+
+  const urlError =
+    typeof originalUrl === 'string'
+      ? validateDestinationUrl(originalUrl, URL_POLICY)
+      : { code: 'INVALID_URL', detail: 'Please provide a valid URL' };
+  if (urlError) {
+    return { message: destinationErrorMessage(urlError), error: urlError };
+  }
+
+  if (customCode !== undefined) {
+    const customCodeError = validateCustomCode(customCode);
+    if (customCodeError) {
+      return { message: 'Invalid customCode value', error: customCodeError };
+    }
+  }
+
+  if (ownerEmail !== undefined) {
+    const ownerEmailError = validateOwnerEmail(ownerEmail);
+    if (ownerEmailError) {
+      return { message: 'Invalid ownerEmail value', error: ownerEmailError };
+    }
+  }
+
+  if (ttlDays !== undefined && (typeof ttlDays !== 'number' || ttlDays <= 0)) {
+    return {
+      message: 'Invalid ttlDays value',
+      error: {
+        code: 'INVALID_TTL_DAYS',
+        detail: 'ttlDays must be a positive number of days',
+      },
+    };
+  }
+
+  if (autoDelete !== undefined && typeof autoDelete !== 'boolean') {
+    return {
+      message: 'Invalid autoDelete value',
+      error: {
+        code: 'INVALID_AUTO_DELETE',
+        detail: 'autoDelete must be a boolean',
+      },
+    };
+  }
+
+  if (
+    maxClicks !== undefined &&
+    (!Number.isInteger(maxClicks) || maxClicks <= 0)
+  ) {
+    return {
+      message: 'Invalid maxClicks value',
+      error: {
+        code: 'INVALID_MAX_CLICKS',
+        detail: 'maxClicks must be a positive integer',
+      },
+    };
+  }
+
+  if (
+    password !== undefined &&
+    (typeof password !== 'string' ||
+      password.length < LINK_PASSWORD_MIN_LENGTH ||
+      password.length > LINK_PASSWORD_MAX_LENGTH)
+  ) {
+    return {
+      message: 'Invalid password value',
+      error: {
+        code: 'INVALID_PASSWORD',
+        detail: `password must be a string of ${LINK_PASSWORD_MIN_LENGTH} to ${LINK_PASSWORD_MAX_LENGTH} characters`,
+      },
+    };
+  }
+
+  const redirectError = validateRedirectSettings({
+    redirectType,
+    queryMode,
+    utm,
+    preview,
+    targeting,
+    variants,
+  });
+  if (redirectError) {
+    return redirectError;
+  }
+
+  return {
+    input: {
+      originalUrl,
+      createdBy,
+      ownerEmail,
+      ttlDays: autoDelete ? (ttlDays ?? DEFAULT_TTL_DAYS) : undefined,
+      customCode,
+      maxClicks,
+      password,
+      redirectType,
+      queryMode,
+      utm,
+      preview,
+      targeting: targeting && normalizeTargetingRules(targeting),
+      variants: variants && normalizeVariants(variants),
+    },
+  };
+}
+
+/**
+ * Build the URL item for a validated shorten input
+ */
+async function buildUrlData(
+  input: ShortenInput,
+  shortCode: string
+): Promise<UrlData> {
   const urlData: UrlData = {
     PK: `URL#${shortCode}`,
     SK: 'METADATA',
     ShortCode: shortCode,
-    OriginalUrl: originalUrl,
+    OriginalUrl: input.originalUrl,
     Clicks: 0,
-    CreatedAt: now,
+    CreatedAt: Date.now(),
     EntityType: 'URL',
   };
 
-  if (ttlDays && ttlDays > 0) {
-    urlData.TTL = calculateTTL(ttlDays);
+  if (input.ttlDays && input.ttlDays > 0) {
+    urlData.ExpiresAt = calculateExpiresAt(input.ttlDays);
   }
 
-  if (createdBy) {
-    urlData.CreatedBy = createdBy;
+  if (input.createdBy) {
+    urlData.CreatedBy = input.createdBy;
   }
 
-  // Store in DynamoDB
-  await dynamoDbClient.send(
-    new PutItemCommand({
-      TableName: TABLE_NAME,
-      Item: marshall(urlData),
-      ConditionExpression: 'attribute_not_exists(PK)', // Ensure no collision
-    })
-  );
+  if (input.ownerEmail) {
+    urlData.OwnerEmail = input.ownerEmail;
+  }
+
+  applyExpiry(urlData, EXPIRY_GRACE_DAYS);
+
+  if (input.enabled === false) {
+    urlData.Enabled = false;
+  }
+
+  if (input.maxClicks) {
+    urlData.MaxClicks = input.maxClicks;
+  }
+
+  if (input.password) {
+    urlData.PasswordHash = await hashPassword(input.password);
+  }
+
+  if (input.redirectType) {
+    urlData.RedirectType = input.redirectType;
+  }
+
+  if (input.queryMode) {
+    urlData.QueryMode = input.queryMode;
+  }
+
+  if (input.utm) {
+    urlData.Utm = input.utm;
+  }
+
+  if (input.preview) {
+    urlData.PreviewMode = true;
+  }
+
+  if (input.targeting?.length) {
+    urlData.TargetingRules = input.targeting;
+  }
+
+  if (input.variants?.length) {
+    urlData.Variants = input.variants;
+    urlData.VariantClicks = Object.fromEntries(
+      input.variants.map((variant) => [variant.id, 0])
+    );
+  }
 
   return urlData;
 }
 
 /**
- * Get URL data by short code
+ * Generate a short code for the given attempt, skipping reserved words
  */
-async function getUrlByShortCode(shortCode: string): Promise<UrlData | null> {
-  const result = await dynamoDbClient.send(
-    new GetItemCommand({
-      TableName: TABLE_NAME,
-      Key: marshall({
-        PK: `URL#${shortCode}`,
-        SK: 'METADATA',
-      }),
-    })
-  );
+function nextGeneratedShortCode(attempt: number): string {
+  let shortCode: string;
+  do {
+    shortCode = generateShortCode(
+      shortCodeLengthForAttempt(attempt, BASE_SHORT_CODE_LENGTH),
+      SHORT_CODE_ALPHABET
+    );
+  } while (RESERVED_SHORT_CODES.includes(shortCode.toLowerCase()));
+  return shortCode;
+}
 
-  if (!result.Item) {
-    return null;
+/**
+ * Create a shortened URL
+ *
+ * Custom codes are tried once and fail with 'Short code already exists'.
+ * Generated codes are retried on collision up to MAX_SHORT_CODE_ATTEMPTS
+ * times, growing the code length as collisions pile up.
+ */
+async function createShortUrl(input: ShortenInput): Promise<UrlData> {
+  const { originalUrl, customCode } = input;
+
+  // Validate URL
+  if (!isValidUrl(originalUrl)) {
+    throw new Error('Invalid URL format');
   }
 
-  return unmarshall(result.Item) as UrlData;
+  const maxAttempts = customCode ? 1 : MAX_SHORT_CODE_ATTEMPTS;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const shortCode = customCode || nextGeneratedShortCode(attempt);
+    const urlData = await buildUrlData(input, shortCode);
+
+    if (await putUrlIfAbsent(urlData)) {
+      return urlData;
+    }
+
+    if (!customCode) {
+      console.warn(
+        `Short code collision on attempt ${attempt + 1}/${maxAttempts}: ${shortCode}`
+      );
+    }
+  }
+
+  throw new Error('Short code already exists');
+}
+
+/**
+ * Find which of the given short codes already exist
+ * @returns The owners of the existing codes, keyed by short code
+ */
+async function findExistingShortCodes(
+  shortCodes: string[]
+): Promise<Map<string, Pick<UrlData, 'CreatedBy'>>> {
+  const items = await dynamoDBService.batchGetItems<UrlData>(
+    TABLE_NAME,
+    shortCodes.map((shortCode) => ({ PK: `URL#${shortCode}`, SK: 'METADATA' })),
+    'ShortCode, CreatedBy'
+  );
+  return new Map(
+    items.map((item) => [item.ShortCode, { CreatedBy: item.CreatedBy }])
+  );
+}
+
+/**
+ * Owner recorded for a new link: the caller, or for admins the createdBy
+ * they asked for
+ */
+function linkOwner(caller: Caller, requested?: string): string {
+  return caller.role === 'admin' && requested ? requested : caller.id;
 }
 
 /**
- * List all URLs with pagination
+ * Run task(0..count-1) with at most `limit` tasks in flight
  */
-async function listUrls(limit: number = 20, lastEvaluatedKey?: any) {
-  const params: any = {
-    TableName: TABLE_NAME,
-    Limit: limit,
-    FilterExpression: 'EntityType = :entityType',
-    ExpressionAttributeValues: marshall({
-      ':entityType': 'URL',
-    }),
+async function runWithConcurrency(
+  count: number,
+  limit: number,
+  task: (index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < count) {
+      await task(next++);
+    }
   };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, count) }, () => worker())
+  );
+}
 
-  if (lastEvaluatedKey) {
-    params.ExclusiveStartKey = lastEvaluatedKey;
-  }
+/**
+ * Create many shortened URLs, BATCH_CREATE_CONCURRENCY at a time.
+ *
+ * Every item is written with the same conditional put as a single shorten
+ * (BatchWriteItem cannot carry conditions), so a code claimed concurrently
+ * by another request is never overwritten: taken custom codes fail with
+ * SHORT_CODE_TAKEN and colliding generated codes are regenerated.
+ * @returns Per-input results in input order
+ */
+async function createShortUrls(
+  inputs: ShortenInput[]
+): Promise<Array<{ urlData?: UrlData; error?: ErrorDetail }>> {
+  const results: Array<{ urlData?: UrlData; error?: ErrorDetail }> = inputs.map(
+    () => ({})
+  );
+  const customCodes = new Set<string>();
+
+  inputs.forEach(({ customCode }, index) => {
+    if (!customCode) {
+      return;
+    }
+    if (customCodes.has(customCode)) {
+      results[index].error = {
+        code: 'SHORT_CODE_TAKEN',
+        detail: `The short code "${customCode}" appears more than once in this batch`,
+      };
+    }
+    customCodes.add(customCode);
+  });
+
+  await runWithConcurrency(
+    inputs.length,
+    BATCH_CREATE_CONCURRENCY,
+    async (index) => {
+      if (results[index].error) {
+        return;
+      }
+      const { customCode } = inputs[index];
+      try {
+        results[index].urlData = await createShortUrl(inputs[index]);
+      } catch (error: any) {
+        if (error.message === 'Short code already exists') {
+          results[index].error = customCode
+            ? {
+                code: 'SHORT_CODE_TAKEN',
+                detail: `The short code "${customCode}" is already taken`,
+              }
+            : {
+                code: 'SHORT_CODE_EXHAUSTED',
+                detail: 'Every generated short code collided, please retry',
+              };
+          return;
+        }
+        console.error(`Failed to create batch item ${index}:`, error);
+        results[index].error = {
+          code: 'WRITE_FAILED',
+          detail: 'The item could not be written, please retry',
+        };
+      }
+    }
+  );
+
+  return results;
+}
 
-  const result = await dynamoDbClient.send(new ScanCommand(params));
+/**
+ * Format a URL's redirect settings for API responses
+ */
+function formatRedirectSettings(urlData: UrlData) {
+  return {
+    redirectType: urlData.RedirectType ?? DEFAULT_REDIRECT_TYPE,
+    queryMode: urlData.QueryMode ?? 'ignore',
+    ...(urlData.Utm ? { utm: urlData.Utm } : {}),
+    preview: !!urlData.PreviewMode,
+    ...(urlData.TargetingRules ? { targeting: urlData.TargetingRules } : {}),
+    ...(urlData.Variants ? { variants: urlData.Variants } : {}),
+  };
+}
 
+/**
+ * Format a newly created URL for API responses
+ */
+function formatCreatedUrl(urlData: UrlData) {
   return {
-    items: result.Items?.map((item) => unmarshall(item)) || [],
-    lastEvaluatedKey: result.LastEvaluatedKey,
+    shortCode: urlData.ShortCode,
+    shortUrl: `${BASE_URL}/${urlData.ShortCode}`,
+    originalUrl: urlData.OriginalUrl,
+    createdAt: new Date(urlData.CreatedAt).toISOString(),
+    ...(urlData.ExpiresAt ? { expiresAt: formatExpiresAt(urlData) } : {}),
+    ...(urlData.OwnerEmail ? { ownerEmail: urlData.OwnerEmail } : {}),
+    ...(urlData.MaxClicks ? { maxClicks: urlData.MaxClicks } : {}),
+    passwordProtected: !!urlData.PasswordHash,
+    ...formatRedirectSettings(urlData),
   };
 }
 
 /**
- * Delete a shortened URL
+ * Create the links of a batch or import: destinations are checked without
+ * following redirects, valid items written with createShortUrls and vanity
+ * codes cleared from the redirect cache
+ * @param items Parsed items, or the error that rejected them
+ * @returns Per-item results in input order
  */
-async function deleteUrl(shortCode: string): Promise<boolean> {
-  try {
-    await dynamoDbClient.send(
-      new DeleteItemCommand({
-        TableName: TABLE_NAME,
-        Key: marshall({
-          PK: `URL#${shortCode}`,
-          SK: 'METADATA',
-        }),
-        ConditionExpression: 'attribute_exists(PK)',
+async function createShortUrlsForItems(
+  items: Array<{ input: ShortenInput } | { error: ErrorDetail }>
+): Promise<Array<Record<string, any>>> {
+  const results: Array<Record<string, any>> = [];
+  const valid: Array<{ index: number; input: ShortenInput }> = [];
+
+  items.forEach((item, index) => {
+    if ('error' in item) {
+      results[index] = { index, success: false, errors: [item.error] };
+    } else {
+      valid.push({ index, input: item.input });
+    }
+  });
+
+  // Redirect chains are not followed for batches: a few hundred HEAD
+  // requests would not fit in the API Gateway timeout
+  const urlErrors = await Promise.all(
+    valid.map(({ input }) =>
+      inspectDestinations(linkDestinations(input), {
+        followRedirects: false,
       })
-    );
-    return true;
-  } catch (error: any) {
-    if (error.name === 'ConditionalCheckFailedException') {
+    )
+  );
+  const accepted = valid.filter(({ index }, i) => {
+    if (urlErrors[i]) {
+      results[index] = { index, success: false, errors: [urlErrors[i]] };
       return false;
     }
-    throw error;
+    return true;
+  });
+
+  const created = await createShortUrls(accepted.map((v) => v.input));
+  created.forEach(({ urlData, error }, i) => {
+    const { index } = accepted[i];
+    results[index] = urlData
+      ? { index, success: true, ...formatCreatedUrl(urlData) }
+      : { index, success: false, errors: [error] };
+  });
+
+  await invalidateRedirectCache(
+    ...created.flatMap(({ urlData }, i) =>
+      urlData && accepted[i].input.customCode ? [urlData.ShortCode] : []
+    )
+  );
+
+  return results;
+}
+
+/**
+ * Format a link with its stats for export. POST /urlify/import accepts the
+ * same fields back.
+ */
+function formatExportedUrl(urlData: UrlData) {
+  return {
+    shortCode: urlData.ShortCode,
+    shortUrl: `${BASE_URL}/${urlData.ShortCode}`,
+    originalUrl: urlData.OriginalUrl,
+    createdBy: urlData.CreatedBy ?? null,
+    ownerEmail: urlData.OwnerEmail ?? null,
+    createdAt: new Date(urlData.CreatedAt).toISOString(),
+    expiresAt: formatExpiresAt(urlData),
+    enabled: urlData.Enabled !== false,
+    clicks: urlData.Clicks,
+    humanClicks: urlData.HumanClicks ?? 0,
+    uniqueVisitors: urlData.UniqueVisitors ?? 0,
+    lastAccessed: urlData.LastAccessed
+      ? new Date(urlData.LastAccessed).toISOString()
+      : null,
+    maxClicks: urlData.MaxClicks ?? null,
+    passwordProtected: !!urlData.PasswordHash,
+    ...formatRedirectSettings(urlData),
+  };
+}
+
+/**
+ * Read the rows of an import request: CSV when format=csv or the body is
+ * text/csv, otherwise a JSON body of {links: [...]}
+ * @returns The rows and whether they came from CSV, or null for a malformed body
+ */
+function parseImportRows(
+  event: APIGatewayProxyEvent
+): { rows: Record<string, any>[]; csv: boolean } | null {
+  const body = event.isBase64Encoded
+    ? Buffer.from(event.body || '', 'base64').toString('utf8')
+    : event.body || '';
+  const csv =
+    event.queryStringParameters?.format === 'csv' ||
+    /^text\/csv\b/i.test(getHeader(event.headers, 'Content-Type') || '');
+
+  if (csv) {
+    const rows = parseCsvRecords(body);
+    return rows && { rows, csv };
+  }
+
+  const links = parseBodyToJson(body)?.links;
+  return Array.isArray(links) ? { rows: links, csv } : null;
+}
+
+/**
+ * Convert a CSV field to the type the shorten request expects. Values that
+ * do not convert are passed through so validation reports them.
+ * @throws Error('Invalid JSON') for a malformed JSON column
+ */
+function fromCsvField(column: string, value: string): unknown {
+  if (value === '') {
+    return undefined;
+  }
+  if (CSV_JSON_COLUMNS.includes(column)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error('Invalid JSON');
+    }
+  }
+  if (CSV_NUMBER_COLUMNS.includes(column)) {
+    return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+  }
+  if (CSV_BOOLEAN_COLUMNS.includes(column)) {
+    const normalized = value.trim().toLowerCase();
+    return normalized === 'true'
+      ? true
+      : normalized === 'false'
+        ? false
+        : value;
   }
+  return value;
 }
 
-/**
- * Lambda handler for URL shortener operations
- * @param event API Gateway event
- * @returns API Gateway response
- */
-export const handler = withCors(
-  async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-    console.log('Event:', JSON.stringify(event, null, 2));
+/**
+ * Validate an imported row with the same rules as POST /urlify/shorten.
+ * shortCode is kept as the custom code and expiresAt becomes the expiry;
+ * stats columns are ignored.
+ */
+function parseImportRow(
+  row: unknown,
+  csv: boolean
+): { input: ShortenInput } | { error: ErrorDetail } {
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    return {
+      error: { code: 'INVALID_ROW', detail: 'Each link must be an object' },
+    };
+  }
+
+  const fields: Record<string, any> = {};
+  for (const [column, value] of Object.entries(row)) {
+    try {
+      fields[column] =
+        csv && typeof value === 'string' ? fromCsvField(column, value) : value;
+    } catch {
+      return {
+        error: { code: 'INVALID_ROW', detail: `${column} is not valid JSON` },
+      };
+    }
+  }
+
+  let ttlDays: number | undefined;
+  if (fields.expiresAt !== undefined && fields.expiresAt !== null) {
+    const expiresAt = Date.parse(fields.expiresAt);
+    if (isNaN(expiresAt) || expiresAt <= Date.now()) {
+      return {
+        error: {
+          code: 'INVALID_EXPIRES_AT',
+          detail: 'expiresAt must be a future ISO 8601 date',
+        },
+      };
+    }
+    ttlDays = (expiresAt - Date.now()) / DAY_MS;
+  }
+
+  if (fields.enabled !== undefined && typeof fields.enabled !== 'boolean') {
+    return {
+      error: { code: 'INVALID_ENABLED', detail: 'enabled must be a boolean' },
+    };
+  }
+
+  const parsed = parseShortenRequest({
+    originalUrl: fields.originalUrl,
+    customCode: fields.shortCode ?? undefined,
+    createdBy: fields.createdBy ?? undefined,
+    ownerEmail: fields.ownerEmail ?? undefined,
+    ...(ttlDays ? { autoDelete: true, ttlDays } : {}),
+    maxClicks: fields.maxClicks ?? undefined,
+    password: fields.password ?? undefined,
+    redirectType: fields.redirectType,
+    queryMode: fields.queryMode,
+    utm: fields.utm ?? undefined,
+    preview: fields.preview,
+    targeting: fields.targeting ?? undefined,
+    variants: fields.variants ?? undefined,
+  });
+  if ('error' in parsed) {
+    return { error: parsed.error };
+  }
+
+  return { input: { ...parsed.input, enabled: fields.enabled } };
+}
+
+/**
+ * Get URL data by short code
+ */
+async function getUrlByShortCode(shortCode: string): Promise<UrlData | null> {
+  const result = await dynamoDbClient.send(
+    new GetItemCommand({
+      TableName: TABLE_NAME,
+      Key: marshall({
+        PK: `URL#${shortCode}`,
+        SK: 'METADATA',
+      }),
+    })
+  );
+
+  if (!result.Item) {
+    return null;
+  }
+
+  return unmarshall(result.Item) as UrlData;
+}
+
+/**
+ * Parse a YYYY-MM-DD date into a UTC midnight Date
+ * @returns The parsed date, or null if the value is not a real calendar date
+ */
+function parseDateParam(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Format a Date as YYYY-MM-DD (UTC)
+ */
+function toDateKey(date: Date | number): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Get all click events for a short code between two dates (inclusive, UTC)
+ */
+async function getClickEvents(
+  shortCode: string,
+  fromDate: Date,
+  toDate: Date
+): Promise<ClickEvent[]> {
+  const dayAfterTo = new Date(toDate.getTime() + DAY_MS);
+  const events: ClickEvent[] = [];
+  let lastEvaluatedKey: any;
+
+  do {
+    const result = await dynamoDbClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        // SKs are CLICK#{ISO timestamp}#{id}; the bare next-day prefix sorts
+        // before any click on that day, so BETWEEN covers toDate fully
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to',
+        ProjectionExpression: '#ts, ReferrerHost, DeviceClass, Country',
+        ExpressionAttributeNames: { '#ts': 'Timestamp' },
+        ExpressionAttributeValues: marshall({
+          ':pk': `URL#${shortCode}`,
+          ':from': `CLICK#${toDateKey(fromDate)}`,
+          ':to': `CLICK#${toDateKey(dayAfterTo)}`,
+        }),
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+
+    result.Items?.forEach((item) =>
+      events.push(unmarshall(item) as ClickEvent)
+    );
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return events;
+}
+
+/**
+ * Sort a count map into a descending list of { [label]: key, clicks }
+ */
+function rankCounts<K extends string>(
+  counts: Map<string, number>,
+  label: K
+): Array<Record<K, string> & { clicks: number }> {
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(
+      ([key, clicks]) =>
+        ({ [label]: key, clicks }) as Record<K, string> & { clicks: number }
+    );
+}
+
+/**
+ * Aggregate click events into daily, referrer, country, device and (for A/B
+ * links) variant breakdowns
+ */
+function summarizeClickEvents(
+  events: ClickEvent[],
+  fromDate: Date,
+  toDate: Date
+) {
+  const daily = new Map<string, number>();
+  for (let t = fromDate.getTime(); t <= toDate.getTime(); t += DAY_MS) {
+    daily.set(toDateKey(t), 0);
+  }
+
+  const referrers = new Map<string, number>();
+  const countries = new Map<string, number>();
+  const variants = new Map<string, number>();
+  const devices: Record<DeviceClass, number> = {
+    bot: 0,
+    mobile: 0,
+    desktop: 0,
+  };
+
+  const increment = (counts: Map<string, number>, key: string) =>
+    counts.set(key, (counts.get(key) || 0) + 1);
+
+  let humanClicks = 0;
+
+  for (const event of events) {
+    // Events recorded before bot filtering only know the device class
+    if (event.Human ?? event.DeviceClass !== 'bot') {
+      humanClicks++;
+    }
+    const day = toDateKey(event.Timestamp);
+    if (daily.has(day)) {
+      increment(daily, day);
+    }
+    increment(referrers, event.ReferrerHost || '(direct)');
+    increment(countries, event.Country || '(unknown)');
+    if (event.DeviceClass in devices) {
+      devices[event.DeviceClass]++;
+    }
+    if (event.Variant) {
+      increment(variants, event.Variant);
+    }
+  }
+
+  return {
+    totalClicks: events.length,
+    humanClicks,
+    daily: [...daily.entries()].map(([date, clicks]) => ({ date, clicks })),
+    referrers: rankCounts(referrers, 'host'),
+    countries: rankCounts(countries, 'country'),
+    devices,
+    ...(variants.size > 0 ? { variants: rankCounts(variants, 'variant') } : {}),
+  };
+}
+
+/**
+ * List URLs newest-first, optionally filtered.
+ * Owner listings query the CreatedBy/CreatedAt index and everything else the
+ * EntityType/CreatedAt index; created-date ranges become key conditions and the
+ * remaining filters a FilterExpression. Because filters can discard a whole
+ * read, up to MAX_LIST_QUERY_PAGES reads are made to fill the page.
+ * @param filters Listing filters
+ * @param limit Page size
+ * @param exclusiveStartKey Unmarshalled key to resume after (from a cursor)
+ */
+async function listUrls(
+  filters: UrlListFilters,
+  limit: number = DEFAULT_PAGE_SIZE,
+  exclusiveStartKey?: Record<string, any>
+) {
+  const indexName = filters.createdBy ? CREATED_BY_INDEX : ENTITY_TYPE_INDEX;
+  const values: Record<string, any> = {};
+  const names: Record<string, string> = {};
+
+  let keyCondition: string;
+  if (filters.createdBy) {
+    keyCondition = 'CreatedBy = :createdBy';
+    values[':createdBy'] = filters.createdBy;
+  } else {
+    keyCondition = 'EntityType = :entityType';
+    values[':entityType'] = 'URL';
+  }
+
+  if (filters.createdFrom !== undefined || filters.createdTo !== undefined) {
+    keyCondition += ' AND CreatedAt BETWEEN :createdFrom AND :createdTo';
+    values[':createdFrom'] = filters.createdFrom ?? 0;
+    values[':createdTo'] = filters.createdTo ?? Number.MAX_SAFE_INTEGER;
+  }
+
+  const conditions: string[] = [];
+  if (filters.createdBy) {
+    // The owner index also holds other entity types an owner may create
+    conditions.push('EntityType = :entityType');
+    values[':entityType'] = 'URL';
+  }
+  if (filters.expiringBefore !== undefined) {
+    // Links created before the grace period only have TTL (seconds)
+    conditions.push(
+      '(ExpiresAt < :expiringBefore OR (attribute_not_exists(ExpiresAt) AND #ttl < :expiringBeforeSeconds))'
+    );
+    names['#ttl'] = 'TTL';
+    values[':expiringBefore'] = filters.expiringBefore;
+    values[':expiringBeforeSeconds'] = Math.floor(
+      filters.expiringBefore / 1000
+    );
+  }
+  if (filters.minClicks !== undefined) {
+    conditions.push('Clicks >= :minClicks');
+    values[':minClicks'] = filters.minClicks;
+  }
+  if (filters.search) {
+    conditions.push('contains(OriginalUrl, :search)');
+    values[':search'] = filters.search;
+  }
+
+  const items: Record<string, any>[] = [];
+  let lastEvaluatedKey = exclusiveStartKey;
+
+  for (let page = 0; page < MAX_LIST_QUERY_PAGES; page++) {
+    const result = await dynamoDbClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: indexName,
+        KeyConditionExpression: keyCondition,
+        FilterExpression: conditions.length
+          ? conditions.join(' AND ')
+          : undefined,
+        ExpressionAttributeNames: Object.keys(names).length ? names : undefined,
+        ExpressionAttributeValues: marshall(values),
+        ScanIndexForward: false,
+        // Only read what is still missing so LastEvaluatedKey stays exact
+        Limit: limit - items.length,
+        ExclusiveStartKey: lastEvaluatedKey
+          ? marshall(lastEvaluatedKey)
+          : undefined,
+      })
+    );
+
+    result.Items?.forEach((item) => items.push(unmarshall(item)));
+    lastEvaluatedKey = result.LastEvaluatedKey
+      ? unmarshall(result.LastEvaluatedKey)
+      : undefined;
+
+    if (!lastEvaluatedKey || items.length >= limit) {
+      break;
+    }
+  }
+
+  return { items, indexName, lastEvaluatedKey };
+}
+
+/**
+ * Decode a cursor returned by listUrls for the same listing
+ * @returns The key to resume after, or null if the cursor was not issued for these filters
+ */
+function decodeListCursor(
+  cursor: string,
+  filters: UrlListFilters
+): Record<string, any> | null {
+  const indexName = filters.createdBy ? CREATED_BY_INDEX : ENTITY_TYPE_INDEX;
+  const decoded = decodeCursor<{ index: string; key: any }>(
+    cursor,
+    CURSOR_SECRET
+  );
+  if (
+    !decoded ||
+    decoded.index !== indexName ||
+    !decoded.key ||
+    (filters.createdBy && decoded.key.CreatedBy !== filters.createdBy)
+  ) {
+    return null;
+  }
+  return decoded.key;
+}
+
+/**
+ * Delete the click events, visitor markers and change history stored with
+ * short URLs, so that a link created later with the same code starts empty.
+ * Failures are logged rather than surfaced since the links are already gone.
+ */
+async function deleteLinkRecords(shortCodes: string[]): Promise<void> {
+  try {
+    const keys: Record<string, any>[] = [];
+    for (const shortCode of shortCodes) {
+      let exclusiveStartKey: Record<string, any> | undefined;
+      do {
+        const result = await dynamoDbClient.send(
+          new QueryCommand({
+            TableName: TABLE_NAME,
+            KeyConditionExpression: 'PK = :pk',
+            ExpressionAttributeValues: marshall({ ':pk': `URL#${shortCode}` }),
+            ProjectionExpression: 'PK, SK',
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+        keys.push(...(result.Items || []).map((item) => unmarshall(item)));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+    }
+
+    const unprocessed = await dynamoDBService.batchWriteItems(
+      TABLE_NAME,
+      keys.map((key) => ({ DeleteRequest: { Key: key } }))
+    );
+    if (unprocessed.length > 0) {
+      console.error(
+        `Failed to delete ${unprocessed.length} of ${keys.length} link records`
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to delete the records of ${shortCodes}:`, error);
+  }
+}
+
+/**
+ * Delete a shortened URL and the records stored with it
+ */
+async function deleteUrl(shortCode: string): Promise<boolean> {
+  try {
+    await dynamoDbClient.send(
+      new DeleteItemCommand({
+        TableName: TABLE_NAME,
+        Key: marshall({
+          PK: `URL#${shortCode}`,
+          SK: 'METADATA',
+        }),
+        ConditionExpression: 'attribute_exists(PK)',
+      })
+    );
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+
+  await deleteLinkRecords([shortCode]);
+  return true;
+}
+
+/**
+ * Apply an edit to a short URL if nobody else edited it since `current` was
+ * read. The update and its change history record are written in a single
+ * transaction so the history never misses or invents an edit.
+ * @param current The URL data the edit is based on
+ * @param update The fields to change
+ * @param updatedBy Who made the edit
+ * @returns The updated URL data (unchanged if the edit was a no-op)
+ * @throws Error('Version conflict') when the version no longer matches
+ */
+async function updateUrl(
+  current: UrlData,
+  update: UrlUpdate,
+  updatedBy?: string
+): Promise<UrlData> {
+  const next: UrlData = { ...current };
+
+  if (update.originalUrl !== undefined) {
+    next.OriginalUrl = update.originalUrl;
+  }
+  // Links created before the grace period keep their expiry in TTL
+  if (next.ExpiresAt === undefined && next.TTL) {
+    next.ExpiresAt = next.TTL * 1000;
+  }
+  if (update.ttlDays === null) {
+    delete next.ExpiresAt;
+  } else if (update.ttlDays !== undefined) {
+    next.ExpiresAt = calculateExpiresAt(update.ttlDays);
+  }
+  if (update.ownerEmail === null) {
+    delete next.OwnerEmail;
+  } else if (update.ownerEmail !== undefined) {
+    next.OwnerEmail = update.ownerEmail;
+  }
+  if (update.enabled !== undefined) {
+    next.Enabled = update.enabled;
+  }
+  if (update.redirectType !== undefined) {
+    next.RedirectType = update.redirectType;
+  }
+  if (update.queryMode !== undefined) {
+    next.QueryMode = update.queryMode;
+  }
+  if (update.utm === null) {
+    delete next.Utm;
+  } else if (update.utm !== undefined) {
+    next.Utm = update.utm;
+  }
+  if (update.preview !== undefined) {
+    next.PreviewMode = update.preview;
+  }
+  if (update.targeting === null || update.targeting?.length === 0) {
+    delete next.TargetingRules;
+  } else if (update.targeting !== undefined) {
+    next.TargetingRules = update.targeting;
+  }
+  if (update.variants === null || update.variants?.length === 0) {
+    delete next.Variants;
+  } else if (update.variants !== undefined) {
+    next.Variants = update.variants;
+  }
+
+  // Enabled is absent until a link is first disabled
+  const valueOf = (data: UrlData, field: (typeof EDITABLE_FIELDS)[number]) =>
+    field === 'Enabled'
+      ? data.Enabled !== false
+      : field === 'ExpiresAt'
+        ? linkExpiresAt(data)
+        : data[field];
+
+  const changes: UrlChangeRecord['Changes'] = {};
+  for (const field of EDITABLE_FIELDS) {
+    const from = valueOf(current, field);
+    const to = valueOf(next, field);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from: from ?? null, to: to ?? null };
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return current;
+  }
+
+  const now = Date.now();
+  const expectedVersion = current.Version ?? 0;
+  next.Version = expectedVersion + 1;
+  next.UpdatedAt = now;
+  if (updatedBy) {
+    next.UpdatedBy = updatedBy;
+  }
+
+  const setClauses = ['Version = :nextVersion', 'UpdatedAt = :updatedAt'];
+  const removeClauses: string[] = [];
+  const names: Record<string, string> = {};
+  const values: Record<string, any> = {
+    ':nextVersion': next.Version,
+    ':updatedAt': now,
+    ':expectedVersion': expectedVersion,
+  };
+  for (const field of Object.keys(changes) as (keyof UrlData)[]) {
+    // Placeholders for every field, in case one is a reserved word
+    names[`#${field}`] = field;
+    const value = field === 'Enabled' ? next.Enabled !== false : next[field];
+    if (value === undefined) {
+      removeClauses.push(`#${field}`);
+    } else {
+      setClauses.push(`#${field} = :${field}`);
+      values[`:${field}`] = value;
+    }
+  }
+  if (updatedBy) {
+    setClauses.push('UpdatedBy = :updatedBy');
+    values[':updatedBy'] = updatedBy;
+  }
+  // TTL and the notification index key follow the expiry and owner email;
+  // they are written without history entries of their own
+  if (changes.ExpiresAt || changes.OwnerEmail) {
+    applyExpiry(next, EXPIRY_GRACE_DAYS);
+    for (const field of ['ExpiresAt', 'TTL', 'ExpiryNotification'] as const) {
+      if (field in changes || next[field] === current[field]) {
+        continue;
+      }
+      names[`#${field}`] = field;
+      if (next[field] === undefined) {
+        removeClauses.push(`#${field}`);
+      } else {
+        setClauses.push(`#${field} = :${field}`);
+        values[`:${field}`] = next[field];
+      }
+    }
+  }
+  // Cached preview metadata describes the old destination
+  if (changes.OriginalUrl && next.PreviewMetadata) {
+    delete next.PreviewMetadata;
+    removeClauses.push('PreviewMetadata');
+  }
+  // Redirects increment VariantClicks.{id}, so every variant needs an entry.
+  // Existing counts are kept, including concurrent increments.
+  if (changes.Variants && next.Variants) {
+    if (current.VariantClicks) {
+      next.VariantClicks = { ...current.VariantClicks };
+      next.Variants.forEach((variant, i) => {
+        next.VariantClicks![variant.id] ??= 0;
+        names[`#variant${i}`] = variant.id;
+        setClauses.push(
+          `VariantClicks.#variant${i} = if_not_exists(VariantClicks.#variant${i}, :zero)`
+        );
+      });
+      values[':zero'] = 0;
+    } else {
+      next.VariantClicks = Object.fromEntries(
+        next.Variants.map((variant) => [variant.id, 0])
+      );
+      setClauses.push('VariantClicks = :variantClicks');
+      values[':variantClicks'] = next.VariantClicks;
+    }
+  }
+
+  const changeRecord: UrlChangeRecord = {
+    PK: current.PK,
+    SK: `HISTORY#${new Date(now).toISOString()}`,
+    ShortCode: current.ShortCode,
+    Version: next.Version,
+    ChangedAt: now,
+    Changes: changes,
+    EntityType: 'HISTORY',
+  };
+  if (updatedBy) {
+    changeRecord.ChangedBy = updatedBy;
+  }
+
+  try {
+    await dynamoDbClient.send(
+      new TransactWriteItemsCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: marshall({ PK: current.PK, SK: 'METADATA' }),
+              UpdateExpression:
+                `SET ${setClauses.join(', ')}` +
+                (removeClauses.length > 0
+                  ? ` REMOVE ${removeClauses.join(', ')}`
+                  : ''),
+              // Links created before versioning have no Version attribute
+              ConditionExpression:
+                expectedVersion === 0
+                  ? 'attribute_exists(PK) AND (attribute_not_exists(Version) OR Version = :expectedVersion)'
+                  : 'Version = :expectedVersion',
+              ExpressionAttributeNames: names,
+              ExpressionAttributeValues: marshall(values),
+            },
+          },
+          {
+            Put: {
+              TableName: TABLE_NAME,
+              Item: marshall(changeRecord),
+            },
+          },
+        ],
+      })
+    );
+  } catch (error: any) {
+    // Only a failed condition on the metadata item (the first action) is a
+    // conflict; throttling or validation cancellations are real errors
+    if (
+      error.name === 'TransactionCanceledException' &&
+      error.CancellationReasons?.[0]?.Code === 'ConditionalCheckFailed'
+    ) {
+      throw new Error('Version conflict');
+    }
+    throw error;
+  }
+
+  return next;
+}
+
+/**
+ * Get the change history of a short URL, newest first
+ */
+async function getUrlHistory(shortCode: string): Promise<UrlChangeRecord[]> {
+  const result = await dynamoDbClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+      ExpressionAttributeValues: marshall({
+        ':pk': `URL#${shortCode}`,
+        ':prefix': 'HISTORY#',
+      }),
+      ScanIndexForward: false,
+    })
+  );
+
+  return (result.Items || []).map(
+    (item) => unmarshall(item) as UrlChangeRecord
+  );
+}
+
+/**
+ * Invalidate the redirect distribution's cached responses for short codes.
+ * Redirects themselves are never cached, but 404/410 pages are, so new,
+ * renewed and re-enabled links work at the edge immediately. Failures are logged
+ * rather than surfaced since the change itself has already been stored.
+ */
+async function invalidateRedirectCache(...shortCodes: string[]): Promise<void> {
+  if (!DISTRIBUTION_ID || shortCodes.length === 0) {
+    return;
+  }
+
+  // A wildcard also covers every query-string variant, but CloudFront only
+  // allows a few wildcard paths in flight, so large batches use exact paths
+  const paths = shortCodes.map((shortCode) =>
+    shortCodes.length <= MAX_WILDCARD_INVALIDATIONS
+      ? `/${shortCode}*`
+      : `/${shortCode}`
+  );
+
+  try {
+    await cloudFrontClient.send(
+      new CreateInvalidationCommand({
+        DistributionId: DISTRIBUTION_ID,
+        InvalidationBatch: {
+          CallerReference: `${shortCodes[0]}-${shortCodes.length}-${Date.now()}`,
+          Paths: { Quantity: paths.length, Items: paths },
+        },
+      })
+    );
+  } catch (error) {
+    console.error(
+      `Error invalidating redirect cache for ${shortCodes.join(', ')}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Render a QR code for a short URL.
+ * PNGs are returned base64-encoded so API Gateway can convert them to binary
+ * (the API lists image/* as a binary media type).
+ */
+async function renderQrCode(
+  shortCode: string,
+  options: {
+    format: (typeof QR_CODE_FORMATS)[number];
+    size: number;
+    margin: number;
+    errorCorrectionLevel: (typeof QR_ERROR_CORRECTION_LEVELS)[number];
+  }
+): Promise<APIGatewayProxyResult> {
+  const { format, size, margin, errorCorrectionLevel } = options;
+  const shortUrl = `${BASE_URL}/${shortCode}`;
+  const headers = {
+    'Content-Disposition': `inline; filename="${shortCode}.${format}"`,
+    'Cache-Control': 'public, max-age=86400',
+  };
+
+  if (format === 'svg') {
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'image/svg+xml', ...headers },
+      body: await QRCode.toString(shortUrl, {
+        type: 'svg',
+        width: size,
+        margin,
+        errorCorrectionLevel,
+      }),
+    };
+  }
+
+  const png = await QRCode.toBuffer(shortUrl, {
+    type: 'png',
+    width: size,
+    margin,
+    errorCorrectionLevel,
+  });
+
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': 'image/png', ...headers },
+    body: png.toString('base64'),
+    isBase64Encoded: true,
+  };
+}
+
+// Callers resolved per request, shared by the rate limiter and the handler
+const resolvedCallers = new WeakMap<
+  APIGatewayProxyEvent,
+  Promise<Caller | null>
+>();
+
+/**
+ * Identify the admin API caller, looking its key up once per request
+ */
+function getCaller(event: APIGatewayProxyEvent): Promise<Caller | null> {
+  let caller = resolvedCallers.get(event);
+  if (!caller) {
+    caller = authenticate(event);
+    resolvedCallers.set(event, caller);
+  }
+  return caller;
+}
+
+/**
+ * Identify the admin API caller from its API key. The bootstrap admin key
+ * from SSM is checked first, then issued keys by key ID and secret hash.
+ * @returns The caller, or null for a missing, unknown or revoked key
+ */
+async function authenticate(
+  event: APIGatewayProxyEvent
+): Promise<Caller | null> {
+  const apiKey = getApiKeyFromRequest(event);
+  if (!apiKey) {
+    return null;
+  }
+
+  if (ADMIN_API_KEY && safeEqual(apiKey, ADMIN_API_KEY)) {
+    return { id: BOOTSTRAP_ADMIN_ID, role: 'admin' };
+  }
+
+  const parsed = parseApiKey(apiKey);
+  if (!parsed) {
+    return null;
+  }
+
+  const record = await getApiKey(parsed.keyId);
+  if (
+    !record ||
+    record.RevokedAt ||
+    !safeEqual(hashApiKeySecret(parsed.secret), record.SecretHash)
+  ) {
+    return null;
+  }
+
+  return {
+    id: record.Owner,
+    role: record.Role,
+    keyId: record.KeyId,
+    ...(record.RateLimit ? { rateLimit: record.RateLimit } : {}),
+  };
+}
+
+/**
+ * Whether a request creates links and so counts against the shorten quotas
+ */
+function isShortenRequest(event: APIGatewayProxyEvent): boolean {
+  const resource = (event.resource || '').replace(/^\/urlify/, '');
+  return (
+    event.httpMethod === 'POST' &&
+    ['/shorten', '/shorten/batch', '/import'].includes(resource)
+  );
+}
+
+/**
+ * Rate limit buckets for link creation: one per API key (its own limit or
+ * the stack default) and one per client IP
+ */
+async function shortenRateLimitBuckets(
+  event: APIGatewayProxyEvent
+): Promise<RateLimitBucket[]> {
+  if (!isShortenRequest(event)) {
+    return [];
+  }
+
+  const caller = await getCaller(event);
+  if (!caller) {
+    // Rejected with 401 by the handler
+    return [];
+  }
+
+  // The connecting address: X-Forwarded-For is set by the client here
+  const sourceIp = event.requestContext?.identity?.sourceIp;
+
+  return [
+    {
+      key: `caller#${caller.keyId ?? caller.id}`,
+      limit: caller.rateLimit ?? SHORTEN_LIMIT_PER_CALLER,
+      windowSeconds: SHORTEN_RATE_WINDOW_SECONDS,
+    },
+    ...(sourceIp
+      ? [
+          {
+            key: `ip#${sourceIp}`,
+            limit: SHORTEN_LIMIT_PER_IP,
+            windowSeconds: SHORTEN_RATE_WINDOW_SECONDS,
+          },
+        ]
+      : []),
+  ];
+}
+
+/**
+ * Tokens a shorten request takes: one per link it asks for
+ */
+function shortenRequestCost(event: APIGatewayProxyEvent): number {
+  const items = event.resource?.endsWith('/shorten/batch')
+    ? parseBodyToJson(event.body)?.items
+    : event.resource?.endsWith('/import')
+      ? parseImportRows(event)?.rows
+      : undefined;
+
+  return Array.isArray(items)
+    ? Math.min(Math.max(items.length, 1), MAX_BATCH_SIZE)
+    : 1;
+}
+
+/**
+ * Validate a per-key link creation limit
+ * @returns An error detail, or null if the value is valid (null clears the limit)
+ */
+function validateRateLimit(rateLimit: unknown): ErrorDetail | null {
+  if (
+    rateLimit !== null &&
+    (!Number.isInteger(rateLimit) || (rateLimit as number) <= 0)
+  ) {
+    return {
+      code: 'INVALID_RATE_LIMIT',
+      detail:
+        'rateLimit must be a positive integer (links per hour), or null for the default',
+    };
+  }
+  return null;
+}
+
+/**
+ * Whether the caller may edit, delete or read the stats of a short URL
+ */
+function canManage(caller: Caller, urlData: Pick<UrlData, 'CreatedBy'>) {
+  return caller.role === 'admin' || urlData.CreatedBy === caller.id;
+}
+
+/**
+ * Get an API key record by key ID
+ */
+async function getApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+  const result = await dynamoDbClient.send(
+    new GetItemCommand({
+      TableName: TABLE_NAME,
+      Key: marshall({ PK: `APIKEY#${keyId}`, SK: 'METADATA' }),
+    })
+  );
+
+  return result.Item ? (unmarshall(result.Item) as ApiKeyRecord) : null;
+}
+
+/**
+ * Issue a new API key. Only the secret's hash is stored, so the returned key
+ * cannot be retrieved again.
+ * @returns The stored record and the full key
+ */
+async function createApiKey(
+  input: {
+    owner: string;
+    role: ApiKeyRole;
+    name?: string;
+    rateLimit?: number;
+  },
+  createdBy: string
+): Promise<{ record: ApiKeyRecord; key: string }> {
+  const { keyId, secret, key } = generateApiKey();
+
+  const record: ApiKeyRecord = {
+    PK: `APIKEY#${keyId}`,
+    SK: 'METADATA',
+    KeyId: keyId,
+    SecretHash: hashApiKeySecret(secret),
+    Owner: input.owner,
+    Role: input.role,
+    CreatedAt: Date.now(),
+    CreatedBy: createdBy,
+    EntityType: 'APIKEY',
+  };
+  if (input.name) {
+    record.Name = input.name;
+  }
+  if (input.rateLimit) {
+    record.RateLimit = input.rateLimit;
+  }
+
+  await dynamoDbClient.send(
+    new PutItemCommand({
+      TableName: TABLE_NAME,
+      Item: marshall(record),
+      ConditionExpression: 'attribute_not_exists(PK)',
+    })
+  );
+
+  return { record, key };
+}
+
+/**
+ * List every API key, newest first
+ */
+async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  const keys: ApiKeyRecord[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const result = await dynamoDbClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: ENTITY_TYPE_INDEX,
+        KeyConditionExpression: 'EntityType = :entityType',
+        ExpressionAttributeValues: marshall({ ':entityType': 'APIKEY' }),
+        ScanIndexForward: false,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    keys.push(
+      ...(result.Items || []).map((item) => unmarshall(item) as ApiKeyRecord)
+    );
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return keys;
+}
+
+/**
+ * Revoke an API key. Revoking an already revoked key keeps the original
+ * revocation time.
+ * @returns The updated record, or null if the key does not exist
+ */
+async function revokeApiKey(
+  keyId: string,
+  revokedBy: string
+): Promise<ApiKeyRecord | null> {
+  try {
+    const result = await dynamoDbClient.send(
+      new UpdateItemCommand({
+        TableName: TABLE_NAME,
+        Key: marshall({ PK: `APIKEY#${keyId}`, SK: 'METADATA' }),
+        UpdateExpression:
+          'SET RevokedAt = if_not_exists(RevokedAt, :now), RevokedBy = if_not_exists(RevokedBy, :revokedBy)',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeValues: marshall({
+          ':now': Date.now(),
+          ':revokedBy': revokedBy,
+        }),
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return unmarshall(result.Attributes!) as ApiKeyRecord;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Set or clear (null) an API key's link creation limit
+ * @returns The updated record, or null if the key does not exist
+ */
+async function updateApiKeyRateLimit(
+  keyId: string,
+  rateLimit: number | null
+): Promise<ApiKeyRecord | null> {
+  try {
+    const result = await dynamoDbClient.send(
+      new UpdateItemCommand({
+        TableName: TABLE_NAME,
+        Key: marshall({ PK: `APIKEY#${keyId}`, SK: 'METADATA' }),
+        UpdateExpression:
+          rateLimit === null
+            ? 'REMOVE RateLimit'
+            : 'SET RateLimit = :rateLimit',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeValues:
+          rateLimit === null
+            ? undefined
+            : marshall({ ':rateLimit': rateLimit }),
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return unmarshall(result.Attributes!) as ApiKeyRecord;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * API key fields returned to clients; never includes the secret hash
+ */
+function formatApiKey(record: ApiKeyRecord) {
+  return {
+    keyId: record.KeyId,
+    owner: record.Owner,
+    role: record.Role,
+    ...(record.Name ? { name: record.Name } : {}),
+    ...(record.RateLimit ? { rateLimit: record.RateLimit } : {}),
+    createdAt: new Date(record.CreatedAt).toISOString(),
+    createdBy: record.CreatedBy,
+    revoked: !!record.RevokedAt,
+    ...(record.RevokedAt
+      ? {
+          revokedAt: new Date(record.RevokedAt).toISOString(),
+          revokedBy: record.RevokedBy,
+        }
+      : {}),
+  };
+}
+
+/**
+ * Lambda handler for URL shortener operations
+ * @param event API Gateway event
+ * @returns API Gateway response
+ */
+const handleRequest = withRateLimit(
+  async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    console.log('Event:', JSON.stringify(loggableEvent(event), null, 2));
+
+    try {
+      const httpMethod = event.httpMethod;
+      const resource = event.resource || '';
+      const pathParameters = event.pathParameters || {};
+      const normalizedResource = resource.replace(/^\/urlify/, '');
+
+      if (httpMethod === 'GET' && normalizedResource === '/health') {
+        return successResponse('Service is healthy', {
+          status: 'ok',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const caller = await getCaller(event);
+
+      if (!caller) {
+        return unauthorizedResponse('Missing or invalid API key');
+      }
+
+      if (normalizedResource.startsWith('/keys') && caller.role !== 'admin') {
+        return forbiddenResponse('Only admins can manage API keys');
+      }
+
+      if (httpMethod === 'POST' && normalizedResource === '/keys') {
+        const {
+          owner,
+          role = 'user',
+          name,
+          rateLimit,
+        } = parseBodyToJson(event.body) || {};
+
+        if (
+          typeof owner !== 'string' ||
+          !owner.trim() ||
+          owner.length > API_KEY_OWNER_MAX_LENGTH
+        ) {
+          return badRequestResponse('Invalid owner value', [
+            {
+              code: 'INVALID_OWNER',
+              detail: `owner is required and must be a string of at most ${API_KEY_OWNER_MAX_LENGTH} characters`,
+            },
+          ]);
+        }
+
+        if (role !== 'admin' && role !== 'user') {
+          return badRequestResponse('Invalid role value', [
+            {
+              code: 'INVALID_ROLE',
+              detail: 'role must be "admin" or "user"',
+            },
+          ]);
+        }
+
+        if (
+          name !== undefined &&
+          (typeof name !== 'string' || name.length > API_KEY_NAME_MAX_LENGTH)
+        ) {
+          return badRequestResponse('Invalid name value', [
+            {
+              code: 'INVALID_NAME',
+              detail: `name must be a string of at most ${API_KEY_NAME_MAX_LENGTH} characters`,
+            },
+          ]);
+        }
+
+        const rateLimitError =
+          rateLimit === undefined ? null : validateRateLimit(rateLimit);
+        if (rateLimitError) {
+          return badRequestResponse('Invalid rateLimit value', [
+            rateLimitError,
+          ]);
+        }
+
+        const { record, key } = await createApiKey(
+          { owner: owner.trim(), role, name, rateLimit },
+          caller.id
+        );
+
+        return createdResponse('API key created successfully', {
+          ...formatApiKey(record),
+          apiKey: key,
+        });
+      }
+
+      if (httpMethod === 'GET' && normalizedResource === '/keys') {
+        const keys = await listApiKeys();
+
+        return successResponse('API keys retrieved successfully', {
+          keys: keys.map(formatApiKey),
+        });
+      }
+
+      if (httpMethod === 'PATCH' && normalizedResource === '/keys/{keyId}') {
+        const { keyId } = pathParameters;
+
+        if (!keyId) {
+          return badRequestResponse('Missing key ID', [
+            { code: 'MISSING_PARAM', detail: 'Key ID is required' },
+          ]);
+        }
+
+        const { rateLimit } = parseBodyToJson(event.body) || {};
+        const rateLimitError =
+          rateLimit === undefined
+            ? {
+                code: 'MISSING_FIELD',
+                detail: 'rateLimit is required (null restores the default)',
+              }
+            : validateRateLimit(rateLimit);
+        if (rateLimitError) {
+          return badRequestResponse('Invalid rateLimit value', [
+            rateLimitError,
+          ]);
+        }
+
+        const record = await updateApiKeyRateLimit(keyId, rateLimit);
+
+        if (!record) {
+          return notFoundResponse(`API key not found: ${keyId}`);
+        }
+
+        return successResponse(
+          'API key updated successfully',
+          formatApiKey(record)
+        );
+      }
+
+      if (httpMethod === 'DELETE' && normalizedResource === '/keys/{keyId}') {
+        const { keyId } = pathParameters;
+
+        if (!keyId) {
+          return badRequestResponse('Missing key ID', [
+            { code: 'MISSING_PARAM', detail: 'Key ID is required' },
+          ]);
+        }
+
+        const record = await revokeApiKey(keyId, caller.id);
+
+        if (!record) {
+          return notFoundResponse(`API key not found: ${keyId}`);
+        }
+
+        return successResponse(
+          'API key revoked successfully',
+          formatApiKey(record)
+        );
+      }
+
+      if (httpMethod === 'POST' && normalizedResource === '/shorten') {
+        const parsed = parseShortenRequest(parseBodyToJson(event.body));
+
+        if ('error' in parsed) {
+          return badRequestResponse(parsed.message, [parsed.error]);
+        }
+
+        parsed.input.createdBy = linkOwner(caller, parsed.input.createdBy);
+        const { customCode } = parsed.input;
+
+        const urlError = await inspectDestinations(
+          linkDestinations(parsed.input)
+        );
+        if (urlError) {
+          return badRequestResponse(destinationErrorMessage(urlError), [
+            urlError,
+          ]);
+        }
+
+        try {
+          const urlData = await createShortUrl(parsed.input);
+
+          // A vanity code may have been visited before it existed, leaving a
+          // 404 in the redirect cache
+          if (customCode) {
+            await invalidateRedirectCache(customCode);
+          }
+
+          return createdResponse(
+            'URL shortened successfully',
+            formatCreatedUrl(urlData)
+          );
+        } catch (error: any) {
+          if (error.message === 'Invalid URL format') {
+            return badRequestResponse('Invalid URL format', [
+              { code: 'INVALID_URL', detail: 'Please provide a valid URL' },
+            ]);
+          }
+          if (error.message === 'Short code already exists') {
+            if (!customCode) {
+              return serverErrorResponse('Could not allocate a short code', [
+                {
+                  code: 'SHORT_CODE_EXHAUSTED',
+                  detail: 'Every generated short code collided, please retry',
+                },
+              ]);
+            }
+            return conflictResponse('Short code already in use', [
+              {
+                code: 'SHORT_CODE_TAKEN',
+                detail: `The short code "${customCode}" is already taken`,
+              },
+            ]);
+          }
+          throw error;
+        }
+      }
+
+      if (httpMethod === 'POST' && normalizedResource === '/shorten/batch') {
+        const body = parseBodyToJson(event.body);
+        const items = body?.items;
+
+        if (!Array.isArray(items) || items.length === 0) {
+          return badRequestResponse('Missing required field: items', [
+            {
+              code: 'MISSING_FIELD',
+              detail: 'items must be a non-empty array of shorten requests',
+            },
+          ]);
+        }
+
+        if (items.length > MAX_BATCH_SIZE) {
+          return badRequestResponse('Too many items', [
+            {
+              code: 'BATCH_TOO_LARGE',
+              detail: `A batch may contain at most ${MAX_BATCH_SIZE} items`,
+            },
+          ]);
+        }
+
+        const results = await createShortUrlsForItems(
+          items.map((item: any) => {
+            const parsed = parseShortenRequest(
+              item && typeof item === 'object'
+                ? { createdBy: body.createdBy, ...item }
+                : item
+            );
+            return 'error' in parsed
+              ? { error: parsed.error }
+              : {
+                  input: {
+                    ...parsed.input,
+                    createdBy: linkOwner(caller, parsed.input.createdBy),
+                  },
+                };
+          })
+        );
+
+        const succeeded = results.filter((result) => result.success).length;
+
+        return successResponse('Batch shorten processed', {
+          results,
+          succeeded,
+          failed: results.length - succeeded,
+        });
+      }
+
+      if (httpMethod === 'POST' && normalizedResource === '/import') {
+        const parsed = parseImportRows(event);
+
+        if (!parsed) {
+          return badRequestResponse('Invalid import body', [
+            {
+              code: 'INVALID_IMPORT',
+              detail:
+                'Send CSV with a header row (format=csv or Content-Type: text/csv) or JSON {links: [...]}',
+            },
+          ]);
+        }
+
+        if (parsed.rows.length === 0) {
+          return badRequestResponse('Nothing to import', [
+            { code: 'MISSING_FIELD', detail: 'Provide at least one link' },
+          ]);
+        }
+
+        if (parsed.rows.length > MAX_BATCH_SIZE) {
+          return badRequestResponse('Too many items', [
+            {
+              code: 'BATCH_TOO_LARGE',
+              detail: `An import may contain at most ${MAX_BATCH_SIZE} links`,
+            },
+          ]);
+        }
+
+        const results = await createShortUrlsForItems(
+          parsed.rows.map((row) => {
+            const item = parseImportRow(row, parsed.csv);
+            return 'error' in item
+              ? item
+              : {
+                  input: {
+                    ...item.input,
+                    createdBy: linkOwner(caller, item.input.createdBy),
+                  },
+                };
+          })
+        );
 
-    try {
-      const httpMethod = event.httpMethod;
-      const resource = event.resource || '';
-      const pathParameters = event.pathParameters || {};
-      const normalizedResource = resource.replace(/^\/urlify/, '');
+        const succeeded = results.filter((result) => result.success).length;
 
-      if (httpMethod === 'GET' && normalizedResource === '/health') {
-        return successResponse('Service is healthy', {
-          status: 'ok',
-          timestamp: new Date().toISOString(),
+        return successResponse('Import processed', {
+          results,
+          succeeded,
+          failed: results.length - succeeded,
         });
       }
 
-      if (httpMethod === 'POST' && normalizedResource === '/shorten') {
-        const body = parseBodyToJson(event.body);
+      if (httpMethod === 'GET' && normalizedResource.startsWith('/qr/')) {
+        const { shortCode } = pathParameters;
 
-        if (!body || !body.originalUrl) {
-          return badRequestResponse('Missing required field: originalUrl', [
-            { code: 'MISSING_FIELD', detail: 'Original URL is required' },
+        if (!shortCode) {
+          return badRequestResponse('Missing short code', [
+            { code: 'MISSING_PARAM', detail: 'Short code is required' },
           ]);
         }
 
-        const { originalUrl, createdBy, autoDelete, ttlDays } = body;
+        const queryParams = event.queryStringParameters || {};
+        const format = (queryParams.format || 'png').toLowerCase();
+        const size = queryParams.size
+          ? Number(queryParams.size)
+          : QR_DEFAULT_SIZE;
+        const margin = queryParams.margin
+          ? Number(queryParams.margin)
+          : QR_DEFAULT_MARGIN;
+        const errorCorrectionLevel = (queryParams.ecl || 'M').toUpperCase();
+
+        if (!(QR_CODE_FORMATS as readonly string[]).includes(format)) {
+          return badRequestResponse('Invalid format value', [
+            {
+              code: 'INVALID_FORMAT',
+              detail: `format must be one of: ${QR_CODE_FORMATS.join(', ')}`,
+            },
+          ]);
+        }
 
         if (
-          ttlDays !== undefined &&
-          (typeof ttlDays !== 'number' || ttlDays <= 0)
+          !Number.isInteger(size) ||
+          size < QR_MIN_SIZE ||
+          size > QR_MAX_SIZE
         ) {
-          return badRequestResponse('Invalid ttlDays value', [
+          return badRequestResponse('Invalid size value', [
             {
-              code: 'INVALID_TTL_DAYS',
-              detail: 'ttlDays must be a positive number of days',
+              code: 'INVALID_SIZE',
+              detail: `size must be an integer between ${QR_MIN_SIZE} and ${QR_MAX_SIZE} pixels`,
             },
           ]);
         }
 
-        if (autoDelete !== undefined && typeof autoDelete !== 'boolean') {
-          return badRequestResponse('Invalid autoDelete value', [
+        if (!Number.isInteger(margin) || margin < 0 || margin > QR_MAX_MARGIN) {
+          return badRequestResponse('Invalid margin value', [
             {
-              code: 'INVALID_AUTO_DELETE',
-              detail: 'autoDelete must be a boolean',
+              code: 'INVALID_MARGIN',
+              detail: `margin must be an integer between 0 and ${QR_MAX_MARGIN} modules`,
             },
           ]);
         }
 
-        const resolvedTtlDays = autoDelete
-          ? (ttlDays ?? DEFAULT_TTL_DAYS)
-          : undefined;
+        if (
+          !(QR_ERROR_CORRECTION_LEVELS as readonly string[]).includes(
+            errorCorrectionLevel
+          )
+        ) {
+          return badRequestResponse('Invalid ecl value', [
+            {
+              code: 'INVALID_ERROR_CORRECTION_LEVEL',
+              detail: `ecl must be one of: ${QR_ERROR_CORRECTION_LEVELS.join(', ')}`,
+            },
+          ]);
+        }
 
-        try {
-          const urlData = await createShortUrl(
-            originalUrl,
-            createdBy,
-            resolvedTtlDays
-          );
+        const urlData = await getUrlByShortCode(shortCode);
 
-          const expiresAt = urlData.TTL
-            ? new Date(urlData.TTL * 1000).toISOString()
-            : undefined;
-
-          return createdResponse('URL shortened successfully', {
-            shortCode: urlData.ShortCode,
-            shortUrl: `${BASE_URL}/${urlData.ShortCode}`,
-            originalUrl: urlData.OriginalUrl,
-            createdAt: new Date(urlData.CreatedAt).toISOString(),
-            ...(expiresAt ? { expiresAt } : {}),
-          });
-        } catch (error: any) {
-          if (error.message === 'Invalid URL format') {
-            return badRequestResponse('Invalid URL format', [
-              { code: 'INVALID_URL', detail: 'Please provide a valid URL' },
-            ]);
-          }
-          throw error;
+        if (!urlData) {
+          return notFoundResponse(`Short URL not found: ${shortCode}`);
         }
+
+        return renderQrCode(shortCode, {
+          format: format as (typeof QR_CODE_FORMATS)[number],
+          size,
+          margin,
+          errorCorrectionLevel:
+            errorCorrectionLevel as (typeof QR_ERROR_CORRECTION_LEVELS)[number],
+        });
       }
 
       if (httpMethod === 'GET' && normalizedResource.startsWith('/stats/')) {
@@ -268,54 +2392,620 @@ export const handler = withCors(
           ]);
         }
 
+        const queryParams = event.queryStringParameters || {};
+        const today = parseDateParam(toDateKey(Date.now()))!;
+        const toDate = queryParams.toDate
+          ? parseDateParam(queryParams.toDate)
+          : today;
+        const fromDate = queryParams.fromDate
+          ? parseDateParam(queryParams.fromDate)
+          : toDate &&
+            new Date(
+              toDate.getTime() - (DEFAULT_STATS_RANGE_DAYS - 1) * DAY_MS
+            );
+
+        if (!fromDate || !toDate) {
+          return badRequestResponse('Invalid date range', [
+            {
+              code: 'INVALID_DATE',
+              detail: 'fromDate and toDate must be dates in YYYY-MM-DD format',
+            },
+          ]);
+        }
+
+        const rangeDays = (toDate.getTime() - fromDate.getTime()) / DAY_MS + 1;
+        if (rangeDays < 1 || rangeDays > MAX_STATS_RANGE_DAYS) {
+          return badRequestResponse('Invalid date range', [
+            {
+              code: 'INVALID_DATE_RANGE',
+              detail: `fromDate must not be after toDate and the range may span at most ${MAX_STATS_RANGE_DAYS} days`,
+            },
+          ]);
+        }
+
         const urlData = await getUrlByShortCode(shortCode);
 
         if (!urlData) {
           return notFoundResponse(`Short URL not found: ${shortCode}`);
         }
 
+        if (!canManage(caller, urlData)) {
+          return forbiddenResponse(`You do not own short URL: ${shortCode}`);
+        }
+
+        const clickEvents = await getClickEvents(shortCode, fromDate, toDate);
+        const expiresAt = linkExpiresAt(urlData);
+
         return successResponse('URL statistics retrieved successfully', {
           shortCode: urlData.ShortCode,
           originalUrl: urlData.OriginalUrl,
           clicks: urlData.Clicks,
+          humanClicks: urlData.HumanClicks ?? 0,
+          uniqueVisitors: urlData.UniqueVisitors ?? 0,
           createdAt: new Date(urlData.CreatedAt).toISOString(),
           lastAccessed: urlData.LastAccessed
             ? new Date(urlData.LastAccessed).toISOString()
             : null,
-          ...(urlData.TTL
-            ? { expiresAt: new Date(urlData.TTL * 1000).toISOString() }
+          ...(expiresAt
+            ? {
+                expiresAt: new Date(expiresAt).toISOString(),
+                // Expired links answer 410 until DynamoDB deletes them
+                expired: expiresAt <= Date.now(),
+                deletesAt: new Date(urlData.TTL! * 1000).toISOString(),
+              }
             : {}),
           createdBy: urlData.CreatedBy,
+          ...(urlData.OwnerEmail ? { ownerEmail: urlData.OwnerEmail } : {}),
+          enabled: urlData.Enabled !== false,
+          version: urlData.Version ?? 0,
+          ...(urlData.MaxClicks ? { maxClicks: urlData.MaxClicks } : {}),
+          passwordProtected: !!urlData.PasswordHash,
+          ...formatRedirectSettings(urlData),
+          ...(urlData.Variants
+            ? {
+                variants: urlData.Variants.map((variant) => ({
+                  ...variant,
+                  clicks: urlData.VariantClicks?.[variant.id] ?? 0,
+                })),
+              }
+            : {}),
+          range: {
+            fromDate: toDateKey(fromDate),
+            toDate: toDateKey(toDate),
+          },
+          breakdown: summarizeClickEvents(clickEvents, fromDate, toDate),
+        });
+      }
+
+      if (httpMethod === 'GET' && normalizedResource === '/export') {
+        const queryParams = event.queryStringParameters || {};
+        const format = queryParams.format || 'json';
+
+        if (!EXPORT_FORMATS.includes(format)) {
+          return badRequestResponse('Invalid format value', [
+            {
+              code: 'INVALID_FORMAT',
+              detail: `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+            },
+          ]);
+        }
+
+        const filters: UrlListFilters = {};
+        if (caller.role !== 'admin') {
+          filters.createdBy = caller.id;
+        } else if (queryParams.createdBy) {
+          filters.createdBy = queryParams.createdBy;
+        }
+
+        let startKey: Record<string, any> | undefined;
+        if (queryParams.cursor) {
+          const cursorKey = decodeListCursor(queryParams.cursor, filters);
+          if (!cursorKey) {
+            return badRequestResponse('Invalid cursor', [
+              {
+                code: 'INVALID_CURSOR',
+                detail: 'cursor must be a value returned as nextCursor',
+              },
+            ]);
+          }
+          startKey = cursorKey;
+        }
+
+        const urls: UrlData[] = [];
+        let indexName = ENTITY_TYPE_INDEX;
+        do {
+          const result = await listUrls(
+            filters,
+            MAX_EXPORT_ROWS - urls.length,
+            startKey
+          );
+          urls.push(...(result.items as UrlData[]));
+          indexName = result.indexName;
+          startKey = result.lastEvaluatedKey;
+        } while (startKey && urls.length < MAX_EXPORT_ROWS);
+
+        const links = urls.map(formatExportedUrl);
+        const nextCursor = startKey
+          ? encodeCursor({ index: indexName, key: startKey }, CURSOR_SECRET)
+          : null;
+
+        if (format === 'csv') {
+          return {
+            statusCode: 200,
+            headers: {
+              'Content-Type': 'text/csv; charset=utf-8',
+              'Content-Disposition': 'attachment; filename="urlify-export.csv"',
+              ...(nextCursor ? { 'X-Next-Cursor': nextCursor } : {}),
+            },
+            body: toCsv(
+              EXPORT_COLUMNS,
+              links.map((link) =>
+                Object.fromEntries(
+                  Object.entries(link).map(([column, value]) => [
+                    column,
+                    value !== null && typeof value === 'object'
+                      ? JSON.stringify(value)
+                      : value,
+                  ])
+                )
+              )
+            ),
+          };
+        }
+
+        return successResponse('URLs exported successfully', {
+          links,
+          count: links.length,
+          nextCursor,
         });
       }
 
       if (httpMethod === 'GET' && normalizedResource === '/urls') {
         const queryParams = event.queryStringParameters || {};
-        const limit = parseInt(queryParams.limit || '20');
-        const lastKey = queryParams.lastKey
-          ? JSON.parse(queryParams.lastKey)
-          : undefined;
+        const limit = Math.min(
+          Math.max(parseInt(queryParams.limit || '') || DEFAULT_PAGE_SIZE, 1),
+          MAX_PAGE_SIZE
+        );
+
+        const filters: UrlListFilters = {};
+        // Non-admins only ever see their own links
+        if (caller.role !== 'admin') {
+          filters.createdBy = caller.id;
+        } else if (queryParams.createdBy) {
+          filters.createdBy = queryParams.createdBy;
+        }
+        if (queryParams.search) {
+          filters.search = queryParams.search;
+        }
 
-        const result = await listUrls(limit, lastKey);
+        const dateFilters = [
+          ['createdFrom', 0],
+          ['createdTo', DAY_MS - 1],
+          ['expiringBefore', 0],
+        ] as const;
+        for (const [name, offset] of dateFilters) {
+          const value = queryParams[name];
+          if (!value) {
+            continue;
+          }
+          const date = parseDateParam(value);
+          if (!date) {
+            return badRequestResponse(`Invalid ${name} value`, [
+              {
+                code: 'INVALID_DATE',
+                detail: `${name} must be a date in YYYY-MM-DD format`,
+              },
+            ]);
+          }
+          const timestamp = date.getTime() + offset;
+          filters[name] = timestamp;
+        }
+
+        if (
+          filters.createdFrom !== undefined &&
+          filters.createdTo !== undefined &&
+          filters.createdFrom > filters.createdTo
+        ) {
+          return badRequestResponse('Invalid date range', [
+            {
+              code: 'INVALID_DATE_RANGE',
+              detail: 'createdFrom must not be after createdTo',
+            },
+          ]);
+        }
+
+        if (queryParams.minClicks !== undefined) {
+          const minClicks = Number(queryParams.minClicks);
+          if (!Number.isInteger(minClicks) || minClicks < 0) {
+            return badRequestResponse('Invalid minClicks value', [
+              {
+                code: 'INVALID_MIN_CLICKS',
+                detail: 'minClicks must be a non-negative integer',
+              },
+            ]);
+          }
+          filters.minClicks = minClicks;
+        }
+
+        let startKey: Record<string, any> | undefined;
+        if (queryParams.cursor) {
+          const cursorKey = decodeListCursor(queryParams.cursor, filters);
+          if (!cursorKey) {
+            return badRequestResponse('Invalid cursor', [
+              {
+                code: 'INVALID_CURSOR',
+                detail: 'cursor must be a value returned as nextCursor',
+              },
+            ]);
+          }
+          startKey = cursorKey;
+        }
+
+        const result = await listUrls(filters, limit, startKey);
 
         const urls = result.items.map((item: any) => ({
           shortCode: item.ShortCode,
           shortUrl: `${BASE_URL}/${item.ShortCode}`,
           originalUrl: item.OriginalUrl,
           clicks: item.Clicks,
+          humanClicks: item.HumanClicks ?? 0,
           createdAt: new Date(item.CreatedAt).toISOString(),
           lastAccessed: item.LastAccessed
             ? new Date(item.LastAccessed).toISOString()
             : null,
-          ...(item.TTL
-            ? { expiresAt: new Date(item.TTL * 1000).toISOString() }
-            : {}),
+          ...(linkExpiresAt(item) ? { expiresAt: formatExpiresAt(item) } : {}),
+          createdBy: item.CreatedBy,
         }));
 
         return successResponse('URLs retrieved successfully', {
           urls,
           count: urls.length,
-          lastEvaluatedKey: result.lastEvaluatedKey,
+          nextCursor: result.lastEvaluatedKey
+            ? encodeCursor(
+                { index: result.indexName, key: result.lastEvaluatedKey },
+                CURSOR_SECRET
+              )
+            : null,
+        });
+      }
+
+      if (httpMethod === 'PATCH' && normalizedResource === '/url/{shortCode}') {
+        const { shortCode } = pathParameters;
+
+        if (!shortCode) {
+          return badRequestResponse('Missing short code', [
+            { code: 'MISSING_PARAM', detail: 'Short code is required' },
+          ]);
+        }
+
+        const body = parseBodyToJson(event.body);
+
+        if (!body || body.version === undefined) {
+          return badRequestResponse('Missing required field: version', [
+            {
+              code: 'MISSING_FIELD',
+              detail:
+                'version is required; use the version returned by stats or the last edit',
+            },
+          ]);
+        }
+
+        const {
+          version,
+          originalUrl,
+          ttlDays,
+          ownerEmail,
+          enabled,
+          redirectType,
+          queryMode,
+          utm,
+          preview,
+          targeting,
+          variants,
+        } = body;
+
+        if (!Number.isInteger(version) || version < 0) {
+          return badRequestResponse('Invalid version value', [
+            {
+              code: 'INVALID_VERSION',
+              detail: 'version must be a non-negative integer',
+            },
+          ]);
+        }
+
+        if (
+          originalUrl === undefined &&
+          ttlDays === undefined &&
+          ownerEmail === undefined &&
+          enabled === undefined &&
+          redirectType === undefined &&
+          queryMode === undefined &&
+          utm === undefined &&
+          preview === undefined &&
+          targeting === undefined &&
+          variants === undefined
+        ) {
+          return badRequestResponse('Nothing to update', [
+            {
+              code: 'NO_CHANGES',
+              detail:
+                'Provide at least one of originalUrl, ttlDays, ownerEmail, enabled, redirectType, queryMode, utm, preview, targeting, variants',
+            },
+          ]);
+        }
+
+        if (originalUrl !== undefined) {
+          const urlError =
+            typeof originalUrl === 'string'
+              ? validateDestinationUrl(originalUrl, URL_POLICY)
+              : { code: 'INVALID_URL', detail: 'Please provide a valid URL' };
+          if (urlError) {
+            return badRequestResponse(destinationErrorMessage(urlError), [
+              urlError,
+            ]);
+          }
+        }
+
+        if (
+          ttlDays !== undefined &&
+          ttlDays !== null &&
+          (typeof ttlDays !== 'number' || ttlDays <= 0)
+        ) {
+          return badRequestResponse('Invalid ttlDays value', [
+            {
+              code: 'INVALID_TTL_DAYS',
+              detail:
+                'ttlDays must be a positive number of days, or null to remove the expiry',
+            },
+          ]);
+        }
+
+        if (ownerEmail !== undefined && ownerEmail !== null) {
+          const ownerEmailError = validateOwnerEmail(ownerEmail);
+          if (ownerEmailError) {
+            return badRequestResponse('Invalid ownerEmail value', [
+              ownerEmailError,
+            ]);
+          }
+        }
+
+        if (enabled !== undefined && typeof enabled !== 'boolean') {
+          return badRequestResponse('Invalid enabled value', [
+            { code: 'INVALID_ENABLED', detail: 'enabled must be a boolean' },
+          ]);
+        }
+
+        const redirectError = validateRedirectSettings({
+          redirectType,
+          queryMode,
+          utm,
+          preview,
+          targeting,
+          variants,
+        });
+        if (redirectError) {
+          return badRequestResponse(redirectError.message, [
+            redirectError.error,
+          ]);
+        }
+
+        const destinationError = await inspectDestinations([
+          ...(originalUrl !== undefined ? [originalUrl] : []),
+          ...(Array.isArray(targeting) ? targeting : []).map(
+            (rule: TargetingRule) => rule.destination
+          ),
+          ...(Array.isArray(variants) ? variants : []).map(
+            (variant: Variant) => variant.destination
+          ),
+        ]);
+        if (destinationError) {
+          return badRequestResponse(destinationErrorMessage(destinationError), [
+            destinationError,
+          ]);
+        }
+
+        const current = await getUrlByShortCode(shortCode);
+
+        if (!current) {
+          return notFoundResponse(`Short URL not found: ${shortCode}`);
+        }
+
+        if (!canManage(caller, current)) {
+          return forbiddenResponse(`You do not own short URL: ${shortCode}`);
+        }
+
+        const currentVersion = current.Version ?? 0;
+        const versionConflict = () =>
+          conflictResponse('URL was modified by another request', [
+            {
+              code: 'VERSION_CONFLICT',
+              detail: `Expected version ${version} but the current version is ${currentVersion}; reload and retry`,
+            },
+          ]);
+
+        if (version !== currentVersion) {
+          return versionConflict();
+        }
+
+        let updated: UrlData;
+        try {
+          updated = await updateUrl(
+            current,
+            {
+              originalUrl,
+              ttlDays,
+              ownerEmail,
+              enabled,
+              redirectType,
+              queryMode,
+              utm,
+              preview,
+              targeting: targeting && normalizeTargetingRules(targeting),
+              variants: variants && normalizeVariants(variants),
+            },
+            caller.id
+          );
+        } catch (error: any) {
+          if (error.message === 'Version conflict') {
+            return versionConflict();
+          }
+          throw error;
+        }
+
+        if (updated !== current) {
+          await invalidateRedirectCache(shortCode);
+        }
+
+        return successResponse('URL updated successfully', {
+          shortCode: updated.ShortCode,
+          shortUrl: `${BASE_URL}/${updated.ShortCode}`,
+          originalUrl: updated.OriginalUrl,
+          enabled: updated.Enabled !== false,
+          version: updated.Version ?? 0,
+          ...formatRedirectSettings(updated),
+          ...(linkExpiresAt(updated)
+            ? { expiresAt: formatExpiresAt(updated) }
+            : {}),
+          ...(updated.OwnerEmail ? { ownerEmail: updated.OwnerEmail } : {}),
+          ...(updated.UpdatedAt
+            ? { updatedAt: new Date(updated.UpdatedAt).toISOString() }
+            : {}),
+        });
+      }
+
+      if (
+        httpMethod === 'GET' &&
+        normalizedResource === '/url/{shortCode}/history'
+      ) {
+        const { shortCode } = pathParameters;
+
+        if (!shortCode) {
+          return badRequestResponse('Missing short code', [
+            { code: 'MISSING_PARAM', detail: 'Short code is required' },
+          ]);
+        }
+
+        const urlData = await getUrlByShortCode(shortCode);
+
+        if (!urlData) {
+          return notFoundResponse(`Short URL not found: ${shortCode}`);
+        }
+
+        if (!canManage(caller, urlData)) {
+          return forbiddenResponse(`You do not own short URL: ${shortCode}`);
+        }
+
+        const history = await getUrlHistory(shortCode);
+
+        return successResponse('URL history retrieved successfully', {
+          shortCode,
+          version: urlData.Version ?? 0,
+          changes: history.map((record) => ({
+            version: record.Version,
+            changedAt: new Date(record.ChangedAt).toISOString(),
+            changedBy: record.ChangedBy,
+            changes: record.Changes,
+          })),
+        });
+      }
+
+      if (httpMethod === 'POST' && normalizedResource === '/url/batch-delete') {
+        const body = parseBodyToJson(event.body);
+        const shortCodes = body?.shortCodes;
+
+        if (
+          !Array.isArray(shortCodes) ||
+          shortCodes.length === 0 ||
+          shortCodes.some((code: unknown) => typeof code !== 'string' || !code)
+        ) {
+          return badRequestResponse('Missing required field: shortCodes', [
+            {
+              code: 'MISSING_FIELD',
+              detail: 'shortCodes must be a non-empty array of short codes',
+            },
+          ]);
+        }
+
+        if (shortCodes.length > MAX_BATCH_SIZE) {
+          return badRequestResponse('Too many items', [
+            {
+              code: 'BATCH_TOO_LARGE',
+              detail: `A batch may contain at most ${MAX_BATCH_SIZE} items`,
+            },
+          ]);
+        }
+
+        const uniqueCodes: string[] = [...new Set<string>(shortCodes)];
+        const existing = await findExistingShortCodes(uniqueCodes);
+        const toDelete = uniqueCodes.filter(
+          (code) => existing.has(code) && canManage(caller, existing.get(code)!)
+        );
+
+        const unprocessed = await dynamoDBService.batchWriteItems(
+          TABLE_NAME,
+          toDelete.map((code) => ({
+            DeleteRequest: { Key: { PK: `URL#${code}`, SK: 'METADATA' } },
+          }))
+        );
+        const failedKeys = new Set(
+          unprocessed.map((request) => request.DeleteRequest?.Key?.PK)
+        );
+        const deleted = toDelete.filter(
+          (code) => !failedKeys.has(`URL#${code}`)
+        );
+
+        await deleteLinkRecords(deleted);
+        await invalidateRedirectCache(...deleted);
+
+        const results = shortCodes.map((shortCode: string, index: number) => {
+          if (!existing.has(shortCode)) {
+            return {
+              index,
+              shortCode,
+              success: false,
+              errors: [
+                {
+                  code: 'NOT_FOUND',
+                  detail: `Short URL not found: ${shortCode}`,
+                },
+              ],
+            };
+          }
+          if (!canManage(caller, existing.get(shortCode)!)) {
+            return {
+              index,
+              shortCode,
+              success: false,
+              errors: [
+                {
+                  code: 'NOT_OWNER',
+                  detail: `You do not own short URL: ${shortCode}`,
+                },
+              ],
+            };
+          }
+          if (failedKeys.has(`URL#${shortCode}`)) {
+            return {
+              index,
+              shortCode,
+              success: false,
+              errors: [
+                {
+                  code: 'WRITE_FAILED',
+                  detail: 'The item could not be deleted, please retry',
+                },
+              ],
+            };
+          }
+          return { index, shortCode, success: true, deleted: true };
+        });
+
+        const succeeded = results.filter((result) => result.success).length;
+
+        return successResponse('Batch delete processed', {
+          results,
+          succeeded,
+          failed: results.length - succeeded,
         });
       }
 
@@ -328,12 +3018,20 @@ export const handler = withCors(
           ]);
         }
 
-        const deleted = await deleteUrl(shortCode);
+        const urlData = await getUrlByShortCode(shortCode);
+
+        if (urlData && !canManage(caller, urlData)) {
+          return forbiddenResponse(`You do not own short URL: ${shortCode}`);
+        }
+
+        const deleted = urlData && (await deleteUrl(shortCode));
 
         if (!deleted) {
           return notFoundResponse(`Short URL not found: ${shortCode}`);
         }
 
+        await invalidateRedirectCache(shortCode);
+
         return successResponse('URL deleted successfully', {
           shortCode,
           deleted: true,
@@ -350,5 +3048,12 @@ export const handler = withCors(
         [{ detail: error instanceof Error ? error.message : 'Unknown error' }]
       );
     }
+  },
+  {
+    tableName: TABLE_NAME,
+    buckets: shortenRateLimitBuckets,
+    cost: shortenRequestCost,
   }
 );
+
+export const handler = withCors(handleRequest);
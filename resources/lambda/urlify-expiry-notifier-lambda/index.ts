@@ -0,0 +1,166 @@
+import {
+  DynamoDBClient,
+  QueryCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { UrlData } from '../../shared/models/urlShortenerTypes';
+import { EXPIRY_NOTIFICATION_PENDING } from '../../shared/utils/expiryUtils';
+import {
+  DEFAULT_EXPIRY_GRACE_DAYS,
+  DEFAULT_EXPIRY_WARNING_DAYS,
+} from '../../shared/constants/constants';
+
+const dynamoDbClient = new DynamoDBClient({});
+const sesClient = new SESv2Client({});
+const TABLE_NAME = process.env.URLIFY_TABLE_NAME!;
+const FROM_EMAIL = process.env.FROM_EMAIL!;
+const BASE_URL = process.env.BASE_URL || 'https://short.url';
+const ADMIN_API_URL = process.env.ADMIN_API_URL;
+const EXPIRY_WARNING_DAYS =
+  parseInt(process.env.EXPIRY_WARNING_DAYS || '') ||
+  DEFAULT_EXPIRY_WARNING_DAYS;
+const EXPIRY_GRACE_DAYS =
+  parseInt(process.env.EXPIRY_GRACE_DAYS || '') || DEFAULT_EXPIRY_GRACE_DAYS;
+const EXPIRY_NOTIFICATION_INDEX = 'ExpiryNotificationIndex';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PendingLink = Pick<
+  UrlData,
+  'PK' | 'SK' | 'ShortCode' | 'OriginalUrl' | 'OwnerEmail' | 'ExpiresAt'
+>;
+
+/**
+ * Get the links with a warning due: those expiring within the warning window,
+ * and expired ones still in their grace period that were never warned
+ */
+async function getPendingLinks(warnBefore: number): Promise<PendingLink[]> {
+  const links: PendingLink[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const result = await dynamoDbClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: EXPIRY_NOTIFICATION_INDEX,
+        KeyConditionExpression:
+          'ExpiryNotification = :pending AND ExpiresAt <= :warnBefore',
+        ExpressionAttributeValues: marshall({
+          ':pending': EXPIRY_NOTIFICATION_PENDING,
+          ':warnBefore': warnBefore,
+        }),
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    links.push(
+      ...(result.Items || []).map((item) => unmarshall(item) as PendingLink)
+    );
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return links;
+}
+
+/**
+ * Build the warning email for a link
+ */
+function buildWarningEmail(link: PendingLink, now: number) {
+  const shortUrl = `${BASE_URL}/${link.ShortCode}`;
+  const expiresAt = new Date(link.ExpiresAt!);
+  const deletesAt = new Date(link.ExpiresAt! + EXPIRY_GRACE_DAYS * DAY_MS);
+  const expired = link.ExpiresAt! <= now;
+
+  const lines = [
+    expired
+      ? `Your short link ${shortUrl} expired on ${expiresAt.toUTCString()}.`
+      : `Your short link ${shortUrl} expires on ${expiresAt.toUTCString()}.`,
+    `It points to ${link.OriginalUrl}.`,
+    '',
+    `Once expired it shows a "link expired" page, and it is deleted for good on ${deletesAt.toUTCString()}.`,
+    'To keep it, renew it before then by setting a new ttlDays, or null for no expiry:',
+    '',
+    `  PATCH ${ADMIN_API_URL ?? ''}/url/${link.ShortCode}`,
+    '  { "version": <current version>, "ttlDays": 30 }',
+  ];
+
+  return {
+    subject: expired
+      ? `Short link expired: ${shortUrl}`
+      : `Short link expiring soon: ${shortUrl}`,
+    text: lines.join('\n'),
+  };
+}
+
+/**
+ * Take a link out of the notification index once warned. The condition
+ * skips links renewed or reassigned while the email was being sent; their
+ * new expiry keeps them pending.
+ */
+async function markNotified(link: PendingLink, now: number): Promise<void> {
+  try {
+    await dynamoDbClient.send(
+      new UpdateItemCommand({
+        TableName: TABLE_NAME,
+        Key: marshall({ PK: link.PK, SK: link.SK }),
+        UpdateExpression:
+          'REMOVE ExpiryNotification SET ExpiryNotifiedAt = :now',
+        ConditionExpression:
+          'ExpiresAt = :expiresAt AND OwnerEmail = :ownerEmail',
+        ExpressionAttributeValues: marshall({
+          ':now': now,
+          ':expiresAt': link.ExpiresAt,
+          ':ownerEmail': link.OwnerEmail,
+        }),
+      })
+    );
+  } catch (error: any) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Scheduled handler: emails the owners of links that are about to expire
+ */
+export const handler = async (): Promise<{
+  notified: number;
+  failed: number;
+}> => {
+  const now = Date.now();
+  const links = await getPendingLinks(now + EXPIRY_WARNING_DAYS * DAY_MS);
+  let notified = 0;
+  let failed = 0;
+
+  for (const link of links) {
+    const email = buildWarningEmail(link, now);
+
+    try {
+      await sesClient.send(
+        new SendEmailCommand({
+          FromEmailAddress: FROM_EMAIL,
+          Destination: { ToAddresses: [link.OwnerEmail!] },
+          Content: {
+            Simple: {
+              Subject: { Data: email.subject },
+              Body: { Text: { Data: email.text } },
+            },
+          },
+        })
+      );
+      await markNotified(link, now);
+      notified++;
+    } catch (error) {
+      // Left pending, so the next run retries
+      console.error(`Error notifying owner of ${link.ShortCode}:`, error);
+      failed++;
+    }
+  }
+
+  console.log(
+    `Expiry warnings: ${notified} sent, ${failed} failed of ${links.length}`
+  );
+  return { notified, failed };
+};
@@ -2,14 +2,103 @@ import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import {
   DynamoDBClient,
   GetItemCommand,
+  PutItemCommand,
   UpdateItemCommand,
 } from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
-import { notFoundResponse } from '../../shared/utils/responseUtils';
-import { UrlData } from '../../shared/models/urlShortenerTypes';
+import { createHash, randomUUID } from 'crypto';
+import {
+  goneResponse,
+  notFoundResponse,
+} from '../../shared/utils/responseUtils';
+import {
+  getCookie,
+  getHeader,
+  getSourceIp,
+  loggableEvent,
+} from '../../shared/utils/httpUtils';
+import {
+  acceptsHtml,
+  escapeHtml,
+  htmlResponse,
+  renderPage,
+} from '../../shared/utils/htmlUtils';
+import { verifyPassword } from '../../shared/utils/passwordUtils';
+import {
+  classifyUserAgent,
+  extractCountry,
+  extractReferrerHost,
+  isHumanClick,
+  isPreviewCrawler,
+} from '../../shared/utils/clickUtils';
+import {
+  fetchPreviewMetadata,
+  renderPreviewPage,
+} from '../../shared/utils/previewUtils';
+import {
+  ClickEvent,
+  PreviewMetadata,
+  UrlData,
+  Variant,
+  VisitorMarker,
+} from '../../shared/models/urlShortenerTypes';
+import { buildDestinationUrl } from '../../shared/utils/redirectUtils';
+import {
+  getViewerContext,
+  matchTargetingRule,
+} from '../../shared/utils/targetingUtils';
+import {
+  pickVariant,
+  variantCookieName,
+} from '../../shared/utils/variantUtils';
+import { linkExpiresAt } from '../../shared/utils/expiryUtils';
+import {
+  CLICK_EVENT_RETENTION_DAYS,
+  DEFAULT_CLICK_DEDUPE_WINDOW_MINUTES,
+  DEFAULT_REDIRECT_TYPE,
+  ERROR_CACHE_TTL_SECONDS,
+  PREVIEW_METADATA_MAX_AGE_DAYS,
+  VARIANT_COOKIE_MAX_AGE_DAYS,
+} from '../../shared/constants/constants';
 
 const dynamoDbClient = new DynamoDBClient({});
 const TABLE_NAME = process.env.URLIFY_TABLE_NAME!;
+const CLICK_DEDUPE_WINDOW_MINUTES =
+  parseInt(process.env.CLICK_DEDUPE_WINDOW_MINUTES || '') ||
+  DEFAULT_CLICK_DEDUPE_WINDOW_MINUTES;
+
+/**
+ * Why a short link cannot be followed
+ */
+type DeadLinkReason = 'not-found' | 'expired' | 'disabled' | 'click-limit';
+
+const DEAD_LINK_PAGES: Record<
+  DeadLinkReason,
+  { statusCode: number; title: string; message: string }
+> = {
+  'not-found': {
+    statusCode: 404,
+    title: 'Link not found',
+    message:
+      "This short link doesn't exist. Check that it was copied or typed correctly.",
+  },
+  expired: {
+    statusCode: 410,
+    title: 'Link expired',
+    message:
+      'This short link has expired and no longer redirects anywhere. Its owner can still renew it for a short while.',
+  },
+  disabled: {
+    statusCode: 410,
+    title: 'Link unavailable',
+    message: 'This short link has been turned off by its owner.',
+  },
+  'click-limit': {
+    statusCode: 410,
+    title: 'Link unavailable',
+    message: 'This short link has reached its maximum number of visits.',
+  },
+};
 
 /**
  * Get URL data by short code
@@ -33,37 +122,314 @@ async function getUrlByShortCode(shortCode: string): Promise<UrlData | null> {
 }
 
 /**
- * Increment click count and update last accessed timestamp
+ * Increment click counts and update last accessed timestamp. Clicks counts
+ * every hit; HumanClicks, UniqueVisitors and the variant's count for A/B links
+ * are incremented as the options say.
+ * With a click limit the increment only succeeds while HumanClicks < maxClicks,
+ * so concurrent redirects can never go past the limit. Pass maxClicks for
+ * human clicks only: bots and prefetches never use up a limited link.
+ * @returns false if the click limit has already been reached
+ */
+async function incrementClicks(
+  shortCode: string,
+  options: {
+    maxClicks?: number;
+    variantId?: string;
+    human?: boolean;
+    unique?: boolean;
+  } = {}
+): Promise<boolean> {
+  const { maxClicks, variantId, human, unique } = options;
+  const counters = [
+    'Clicks = if_not_exists(Clicks, :zero) + :inc',
+    ...(human
+      ? ['HumanClicks = if_not_exists(HumanClicks, :zero) + :inc']
+      : []),
+    ...(unique
+      ? ['UniqueVisitors = if_not_exists(UniqueVisitors, :zero) + :inc']
+      : []),
+    // VariantClicks is created with every variant ID when variants are set
+    ...(variantId
+      ? [
+          'VariantClicks.#variant = if_not_exists(VariantClicks.#variant, :zero) + :inc',
+        ]
+      : []),
+  ];
+
+  try {
+    await dynamoDbClient.send(
+      new UpdateItemCommand({
+        TableName: TABLE_NAME,
+        Key: marshall({
+          PK: `URL#${shortCode}`,
+          SK: 'METADATA',
+        }),
+        UpdateExpression: `SET ${counters.join(', ')}, LastAccessed = :timestamp`,
+        ConditionExpression: maxClicks
+          ? 'attribute_not_exists(HumanClicks) OR HumanClicks < :maxClicks'
+          : undefined,
+        ExpressionAttributeNames: variantId
+          ? { '#variant': variantId }
+          : undefined,
+        ExpressionAttributeValues: marshall({
+          ':inc': 1,
+          ':zero': 0,
+          ':timestamp': Date.now(),
+          ...(maxClicks ? { ':maxClicks': maxClicks } : {}),
+        }),
+      })
+    );
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Respond to a short link that cannot be followed: a branded HTML page for
+ * browsers, the usual JSON error body for API clients
+ * @param cacheable Whether CloudFront may cache the response briefly
+ */
+function deadLinkResponse(
+  event: APIGatewayProxyEvent,
+  shortCode: string,
+  reason: DeadLinkReason,
+  cacheable = true
+): APIGatewayProxyResult {
+  const { statusCode, title, message } = DEAD_LINK_PAGES[reason];
+  const cacheControl = cacheable
+    ? `public, max-age=0, s-maxage=${ERROR_CACHE_TTL_SECONDS}`
+    : 'no-store';
+
+  if (acceptsHtml(getHeader(event.headers, 'Accept'))) {
+    return htmlResponse(
+      statusCode,
+      renderPage(
+        title,
+        `<h1>${escapeHtml(title)}</h1>\n<p>${escapeHtml(message)}</p>`
+      ),
+      { 'Cache-Control': cacheControl }
+    );
+  }
+
+  const response =
+    statusCode === 404
+      ? notFoundResponse(`Short URL not found: ${shortCode}`)
+      : goneResponse(`${title}: ${shortCode}`);
+  return {
+    ...response,
+    headers: { ...response.headers, 'Cache-Control': cacheControl },
+  };
+}
+
+/**
+ * Get a link's preview metadata, fetching it from the destination and caching
+ * it on the item when missing or older than PREVIEW_METADATA_MAX_AGE_DAYS
+ */
+async function getPreviewMetadata(urlData: UrlData): Promise<PreviewMetadata> {
+  const cached = urlData.PreviewMetadata;
+  if (
+    cached &&
+    Date.now() - cached.fetchedAt <
+      PREVIEW_METADATA_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+  ) {
+    return cached;
+  }
+
+  const metadata = await fetchPreviewMetadata(urlData.OriginalUrl);
+
+  try {
+    await dynamoDbClient.send(
+      new UpdateItemCommand({
+        TableName: TABLE_NAME,
+        Key: marshall({ PK: urlData.PK, SK: 'METADATA' }),
+        UpdateExpression: 'SET PreviewMetadata = :metadata',
+        // Don't cache metadata for a destination edited in the meantime
+        ConditionExpression: 'OriginalUrl = :originalUrl',
+        ExpressionAttributeValues: marshall({
+          ':metadata': metadata,
+          ':originalUrl': urlData.OriginalUrl,
+        }),
+      })
+    );
+  } catch (error: any) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      console.error('Error caching preview metadata:', error);
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Read the password field from a submitted unlock form
+ */
+function parseSubmittedPassword(event: APIGatewayProxyEvent): string {
+  const body = event.isBase64Encoded
+    ? Buffer.from(event.body || '', 'base64').toString('utf8')
+    : event.body || '';
+  return new URLSearchParams(body).get('password') || '';
+}
+
+/**
+ * Render the unlock form for a password-protected short URL.
+ * The form posts back to the short URL itself.
+ */
+function unlockPageResponse(
+  statusCode: number,
+  error?: string
+): APIGatewayProxyResult {
+  const html = renderPage(
+    'Protected link',
+    `<h1>This link is password protected</h1>
+<p>Enter the password to continue.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+<form method="POST" action="">
+<input type="password" name="password" autocomplete="current-password" required autofocus>
+<button type="submit">Continue</button>
+</form>`
+  );
+
+  return htmlResponse(statusCode, html, { 'Cache-Control': 'no-store' });
+}
+
+/**
+ * Collect the query parameters sent to the short URL, keeping repeated names
+ */
+function incomingQuery(event: APIGatewayProxyEvent): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [name, values] of Object.entries(
+    event.multiValueQueryStringParameters || {}
+  )) {
+    for (const value of values || []) {
+      params.append(name, value);
+    }
+  }
+  return params;
+}
+
+/**
+ * Mark a human visitor as seen for the dedupe window
+ * @returns true if the visitor was not already seen within the window
  */
-async function incrementClicks(shortCode: string): Promise<void> {
+async function registerVisitor(
+  shortCode: string,
+  event: APIGatewayProxyEvent
+): Promise<boolean> {
+  const now = Date.now();
+  const visitorHash = createHash('sha256')
+    .update(
+      `${shortCode}|${getSourceIp(event) || ''}|${getHeader(event.headers, 'User-Agent') || ''}`
+    )
+    .digest('base64url')
+    .slice(0, 22);
+  const expiresAt = now + CLICK_DEDUPE_WINDOW_MINUTES * 60 * 1000;
+
+  const marker: VisitorMarker = {
+    PK: `URL#${shortCode}`,
+    SK: `VISITOR#${visitorHash}`,
+    ExpiresAt: expiresAt,
+    TTL: Math.floor(expiresAt / 1000),
+    EntityType: 'VISITOR',
+  };
+
+  try {
+    await dynamoDbClient.send(
+      new PutItemCommand({
+        TableName: TABLE_NAME,
+        Item: marshall(marker),
+        // DynamoDB deletes expired markers late, so check the expiry too
+        ConditionExpression: 'attribute_not_exists(PK) OR ExpiresAt < :now',
+        ExpressionAttributeValues: marshall({ ':now': now }),
+      })
+    );
+    return true;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Choose the A/B variant for a visitor: the one pinned by their cookie if it
+ * still exists, otherwise a weighted pick seeded by IP address and User-Agent
+ * so repeat visits without cookies land on the same variant
+ */
+function chooseVariant(
+  shortCode: string,
+  variants: Variant[],
+  event: APIGatewayProxyEvent
+): Variant {
+  const pinned = getCookie(event.headers, variantCookieName(shortCode));
+  return (
+    variants.find((variant) => variant.id === pinned) ??
+    pickVariant(
+      variants,
+      `${shortCode}|${getSourceIp(event) || ''}|${getHeader(event.headers, 'User-Agent') || ''}`
+    )
+  );
+}
+
+/**
+ * Record a click event with referrer, device class and viewer country
+ */
+async function recordClickEvent(
+  shortCode: string,
+  event: APIGatewayProxyEvent,
+  variantId?: string,
+  human?: boolean
+): Promise<void> {
+  const now = Date.now();
+  const clickEvent: ClickEvent = {
+    PK: `URL#${shortCode}`,
+    SK: `CLICK#${new Date(now).toISOString()}#${randomUUID().slice(0, 8)}`,
+    ShortCode: shortCode,
+    Timestamp: now,
+    DeviceClass: classifyUserAgent(getHeader(event.headers, 'User-Agent')),
+    Human: !!human,
+    TTL: Math.floor(now / 1000) + CLICK_EVENT_RETENTION_DAYS * 24 * 60 * 60,
+    EntityType: 'CLICK',
+  };
+
+  const referrerHost = extractReferrerHost(getHeader(event.headers, 'Referer'));
+  if (referrerHost) {
+    clickEvent.ReferrerHost = referrerHost;
+  }
+
+  const country = extractCountry(event);
+  if (country) {
+    clickEvent.Country = country;
+  }
+
+  if (variantId) {
+    clickEvent.Variant = variantId;
+  }
+
   await dynamoDbClient.send(
-    new UpdateItemCommand({
+    new PutItemCommand({
       TableName: TABLE_NAME,
-      Key: marshall({
-        PK: `URL#${shortCode}`,
-        SK: 'METADATA',
-      }),
-      UpdateExpression:
-        'SET Clicks = if_not_exists(Clicks, :zero) + :inc, LastAccessed = :timestamp',
-      ExpressionAttributeValues: marshall({
-        ':inc': 1,
-        ':zero': 0,
-        ':timestamp': Date.now(),
-      }),
+      Item: marshall(clickEvent),
     })
   );
 }
 
 /**
  * Lambda handler for URL redirection
- * Handles GET /:shortCode - Redirect to original URL
+ * Handles GET /:shortCode - Redirect to original URL, or serve the unlock
+ * form for password-protected links or the preview page to crawlers
+ * Handles POST /:shortCode - Check a submitted unlock password and redirect
  * @param event API Gateway event
- * @returns API Gateway response with 301 redirect
+ * @returns API Gateway response with the link's redirect
  */
 export const handler = async (
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> => {
-  console.log('Redirect Event:', JSON.stringify(event, null, 2));
+  console.log('Redirect Event:', JSON.stringify(loggableEvent(event), null, 2));
 
   try {
     const pathParameters = event.pathParameters || {};
@@ -71,32 +437,135 @@ export const handler = async (
 
     // Validate short code exists
     if (!shortCode) {
-      return notFoundResponse('Short code is required');
+      return deadLinkResponse(event, '', 'not-found');
     }
 
     // Get URL data from DynamoDB
     const urlData = await getUrlByShortCode(shortCode);
 
     if (!urlData) {
-      return notFoundResponse(`Short URL not found: ${shortCode}`);
+      return deadLinkResponse(event, shortCode, 'not-found');
     }
 
-    // Increment click count asynchronously (don't wait for it)
-    incrementClicks(shortCode).catch((err) =>
-      console.error('Error incrementing clicks:', err)
+    // Expired links stay in the table for a grace period so their owners can
+    // renew them, and DynamoDB deletes them up to a few days after that
+    const expiresAt = linkExpiresAt(urlData);
+    if (expiresAt && expiresAt <= Date.now()) {
+      return deadLinkResponse(event, shortCode, 'expired');
+    }
+
+    if (urlData.Enabled === false) {
+      return deadLinkResponse(event, shortCode, 'disabled');
+    }
+
+    if (urlData.MaxClicks && (urlData.HumanClicks ?? 0) >= urlData.MaxClicks) {
+      return deadLinkResponse(event, shortCode, 'click-limit');
+    }
+
+    // Crawlers unfurling a shared link get its preview instead of the
+    // redirect. Protected links never reveal their destination.
+    if (
+      urlData.PreviewMode &&
+      !urlData.PasswordHash &&
+      isPreviewCrawler(getHeader(event.headers, 'User-Agent'))
+    ) {
+      return htmlResponse(
+        200,
+        renderPreviewPage(
+          urlData.OriginalUrl,
+          await getPreviewMetadata(urlData)
+        ),
+        { 'Cache-Control': 'no-store' }
+      );
+    }
+
+    if (urlData.PasswordHash) {
+      if (event.httpMethod !== 'POST') {
+        return unlockPageResponse(200);
+      }
+
+      const password = parseSubmittedPassword(event);
+      if (!(await verifyPassword(password, urlData.PasswordHash))) {
+        return unlockPageResponse(401, 'Incorrect password, please try again.');
+      }
+    }
+
+    const targetingRule = matchTargetingRule(
+      urlData.TargetingRules,
+      getViewerContext(event)
+    );
+    // Variants split the traffic no targeting rule claimed
+    const variant =
+      !targetingRule && urlData.Variants?.length
+        ? chooseVariant(shortCode, urlData.Variants, event)
+        : undefined;
+
+    const human = isHumanClick(event);
+    const countClick = async () =>
+      incrementClicks(shortCode, {
+        maxClicks: human ? urlData.MaxClicks : undefined,
+        variantId: variant?.id,
+        human,
+        unique: human && (await registerVisitor(shortCode, event)),
+      });
+
+    // Limited links count the click first so the limit is enforced exactly
+    const limited = Boolean(urlData.MaxClicks && human);
+    if (limited && !(await countClick())) {
+      return deadLinkResponse(event, shortCode, 'click-limit');
+    }
+
+    // Awaited: Lambda freezes the environment once the response is returned
+    const [counted, recorded] = await Promise.allSettled([
+      limited ? Promise.resolve(true) : countClick(),
+      recordClickEvent(shortCode, event, variant?.id, human),
+    ]);
+    if (counted.status === 'rejected') {
+      console.error('Error incrementing clicks:', counted.reason);
+    }
+    if (recorded.status === 'rejected') {
+      console.error('Error recording click event:', recorded.reason);
+    }
+
+    const location = buildDestinationUrl(
+      targetingRule?.destination ?? variant?.destination ?? urlData.OriginalUrl,
+      { queryMode: urlData.QueryMode, utm: urlData.Utm },
+      incomingQuery(event)
     );
 
     return {
-      statusCode: 301,
+      // Unlock forms are POSTed, and a 307/308 would re-send the password
+      // to the destination
+      statusCode: urlData.PasswordHash
+        ? 302
+        : (urlData.RedirectType ?? DEFAULT_REDIRECT_TYPE),
       headers: {
-        Location: urlData.OriginalUrl,
-        'Cache-Control': 'no-cache',
+        Location: location,
+        // Every visit must reach this Lambda, which counts the click.
+        // Limited, protected, preview and split links are not stored at all.
+        'Cache-Control':
+          urlData.MaxClicks ||
+          urlData.PasswordHash ||
+          urlData.PreviewMode ||
+          urlData.Variants?.length
+            ? 'no-store'
+            : 'no-cache',
+        ...(variant
+          ? {
+              'Set-Cookie': `${variantCookieName(shortCode)}=${variant.id}; Max-Age=${VARIANT_COOKIE_MAX_AGE_DAYS * 24 * 60 * 60}; Path=/${shortCode}; Secure; HttpOnly; SameSite=Lax`,
+            }
+          : {}),
       },
       body: '',
     };
   } catch (error) {
     console.error('Error in URL redirect operation:', error);
 
-    return notFoundResponse('Short URL not found');
+    return deadLinkResponse(
+      event,
+      event.pathParameters?.shortCode || '',
+      'not-found',
+      false
+    );
   }
 };
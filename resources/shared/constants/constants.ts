@@ -0,0 +1,189 @@
+import { JiraApiFlavour, JiraInstanceRegistry } from '../models/types';
+
+/**
+ * Urlify short code constraints
+ */
+export const SHORT_CODE_LENGTH = 6;
+export const CUSTOM_CODE_MIN_LENGTH = 3;
+export const CUSTOM_CODE_MAX_LENGTH = 32;
+export const CUSTOM_CODE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Codes that would shadow a route on the admin API or the redirect domain
+ * (CoreStack rewrites /{shortCode} to /r/{shortCode}), so they can never be
+ * claimed as a custom alias. Literal admin API segments are included:
+ * API Gateway prefers them over a {shortCode} sibling, so a link named like
+ * /urlify/url/batch-delete could never be read, edited or deleted.
+ */
+export const RESERVED_SHORT_CODES: readonly string[] = [
+  'admin',
+  'api',
+  'batch',
+  'batch-delete',
+  'export',
+  'health',
+  'history',
+  'import',
+  'keys',
+  'qr',
+  'r',
+  'shorten',
+  'stats',
+  'url',
+  'urls',
+  'urlify',
+];
+
+/**
+ * Alphabets available to the short code generator
+ */
+export const SHORT_CODE_ALPHABETS = {
+  base62: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
+  // Drops 0/O, 1/l/I so codes survive being read aloud or printed
+  unambiguous: '23456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz',
+} as const;
+
+export type ShortCodeAlphabet = keyof typeof SHORT_CODE_ALPHABETS;
+
+export const MAX_SHORT_CODE_LENGTH = 12;
+export const MAX_SHORT_CODE_ATTEMPTS = 6;
+
+/**
+ * Consecutive collisions tolerated at one length before the generator adds a
+ * character; repeated collisions mean that keyspace is getting crowded.
+ */
+export const COLLISIONS_BEFORE_LENGTH_GROWTH = 2;
+
+/**
+ * Click events are kept for a little over a year so stats can compare
+ * the same month year over year
+ */
+export const CLICK_EVENT_RETENTION_DAYS = 400;
+
+/**
+ * Repeat visits by the same visitor within this window count as one
+ * unique visitor
+ */
+export const DEFAULT_CLICK_DEDUPE_WINDOW_MINUTES = 30;
+export const MAX_STATS_RANGE_DAYS = 366;
+export const DEFAULT_STATS_RANGE_DAYS = 30;
+
+/**
+ * Password-protected short links
+ */
+export const LINK_PASSWORD_MIN_LENGTH = 4;
+export const LINK_PASSWORD_MAX_LENGTH = 128;
+
+/**
+ * Destination URL policy
+ */
+export const ALLOWED_URL_PROTOCOLS = ['http:', 'https:'];
+export const MAX_DESTINATION_REDIRECTS = 5;
+export const DESTINATION_CHECK_TIMEOUT_MS = 3000;
+// Time all of a link's destinations are checked within, in parallel
+export const DESTINATION_CHECK_BUDGET_MS = 10000;
+
+/**
+ * QR codes for short links
+ */
+export const QR_CODE_FORMATS = ['png', 'svg'] as const;
+export const QR_ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+export const QR_DEFAULT_SIZE = 300;
+export const QR_MIN_SIZE = 64;
+export const QR_MAX_SIZE = 2048;
+export const QR_DEFAULT_MARGIN = 4;
+export const QR_MAX_MARGIN = 20;
+
+/**
+ * Redirect behaviour
+ */
+export const REDIRECT_TYPES = [301, 302, 307, 308] as const;
+export const DEFAULT_REDIRECT_TYPE = 302;
+export const QUERY_MODES = ['ignore', 'append', 'merge'] as const;
+export const UTM_FIELDS = [
+  'source',
+  'medium',
+  'campaign',
+  'term',
+  'content',
+] as const;
+export const UTM_VALUE_MAX_LENGTH = 200;
+
+/**
+ * Missing, expired and disabled links are cached briefly so dead codes don't
+ * reach the redirect Lambda on every request
+ */
+export const ERROR_CACHE_TTL_SECONDS = 60;
+
+/**
+ * Link previews: Open Graph metadata fetched from destinations for crawlers
+ */
+export const PREVIEW_FETCH_TIMEOUT_MS = 3000;
+export const PREVIEW_MAX_HTML_LENGTH = 256 * 1024;
+export const PREVIEW_METADATA_MAX_AGE_DAYS = 7;
+
+/**
+ * Device- and geo-targeted redirect rules
+ */
+export const MAX_TARGETING_RULES = 10;
+export const TARGET_OPERATING_SYSTEMS = ['ios', 'android', 'other'] as const;
+
+/**
+ * Weighted A/B split destinations
+ */
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 10;
+export const MAX_VARIANT_WEIGHT = 1000;
+export const VARIANT_COOKIE_MAX_AGE_DAYS = 30;
+
+/**
+ * Admin API keys, formatted as usk_{keyId}_{secret}
+ */
+export const API_KEY_PREFIX = 'usk';
+export const API_KEY_ID_LENGTH = 12;
+export const API_KEY_SECRET_BYTES = 32;
+export const API_KEY_OWNER_MAX_LENGTH = 128;
+export const API_KEY_NAME_MAX_LENGTH = 100;
+
+/**
+ * Link creation quotas: links per caller / per client IP per window
+ */
+export const DEFAULT_SHORTEN_LIMIT_PER_CALLER = 100;
+export const DEFAULT_SHORTEN_LIMIT_PER_IP = 300;
+export const SHORTEN_RATE_WINDOW_SECONDS = 3600;
+
+/**
+ * Link expiry: owners with an email are warned before their links expire,
+ * and expired links keep answering 410 for a grace period before deletion
+ */
+export const DEFAULT_EXPIRY_WARNING_DAYS = 7;
+export const DEFAULT_EXPIRY_GRACE_DAYS = 14;
+export const OWNER_EMAIL_MAX_LENGTH = 254;
+export const OWNER_EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Jira instances the timesheet proxy reaches unless TimesheetCoreStack is
+ * given its own registry
+ */
+export const DEFAULT_JIRA_INSTANCE = 'jiradc';
+export const DEFAULT_JIRA_INSTANCES: JiraInstanceRegistry = {
+  jira3: {
+    baseUrl: 'https://insight.fsoft.com.vn/jira3',
+    apiFlavour: 'server',
+    headerProfile: 'browser',
+  },
+  jira9: {
+    baseUrl: 'https://insight.fsoft.com.vn/jira9',
+    apiFlavour: 'server',
+    headerProfile: 'browser',
+  },
+  jiradc: {
+    baseUrl: 'https://insight.fsoft.com.vn/jiradc',
+    apiFlavour: 'server',
+    headerProfile: 'browser',
+  },
+};
+export const JIRA_API_PATHS: Record<JiraApiFlavour, string> = {
+  server: 'rest/api/2',
+  cloud: 'rest/api/3',
+};
@@ -1 +1,26 @@
-export type JiraInstance = 'jira3' | 'jira9' | 'jiradc';
+/**
+ * ID of a Jira instance in the registry, passed by clients as jiraInstance
+ */
+export type JiraInstance = string;
+
+/**
+ * Core REST API of a Jira instance: 'server' (Server and Data Center) serves
+ * /rest/api/2, 'cloud' serves /rest/api/3
+ */
+export type JiraApiFlavour = 'server' | 'cloud';
+
+/**
+ * Headers sent to a Jira instance: 'browser' mimics the Jira web app
+ * (origin, referer and XHR headers), 'api' sends only the JSON and
+ * authorization headers
+ */
+export type JiraHeaderProfile = 'browser' | 'api';
+
+export interface JiraInstanceConfig {
+  /** Instance root without a trailing slash, e.g. https://insight.fsoft.com.vn/jiradc */
+  baseUrl: string;
+  apiFlavour: JiraApiFlavour;
+  headerProfile: JiraHeaderProfile;
+}
+
+export type JiraInstanceRegistry = Record<JiraInstance, JiraInstanceConfig>;
@@ -6,10 +6,208 @@ export interface UrlData {
   SK: string;
   ShortCode: string;
   OriginalUrl: string;
+  /** Every redirect, including bots and prefetches */
   Clicks: number;
+  /** Redirects for real visitors: no bots, prefetches or HEAD requests */
+  HumanClicks?: number;
+  /** Human visitors, each counted once per dedupe window */
+  UniqueVisitors?: number;
   LastAccessed?: number;
   CreatedAt: number;
   CreatedBy?: string;
+  /** DynamoDB deletion time (s): ExpiresAt plus the grace period */
   TTL?: number;
+  /**
+   * When the link stops redirecting (ms); links created before the grace
+   * period have only TTL, which then is the expiry
+   */
+  ExpiresAt?: number;
+  /** Address warned by email before the link expires */
+  OwnerEmail?: string;
+  /** 'PENDING' while an expiry warning is due; keys ExpiryNotificationIndex */
+  ExpiryNotification?: string;
+  ExpiryNotifiedAt?: number;
   EntityType: string;
+  /** Disabled links stop redirecting; absent means enabled */
+  Enabled?: boolean;
+  /** Optimistic-concurrency version, bumped on every edit; absent means 0 */
+  Version?: number;
+  UpdatedAt?: number;
+  UpdatedBy?: string;
+  /** Redirects stop (410 Gone) once Clicks reaches this limit */
+  MaxClicks?: number;
+  /** scrypt hash of the unlock password; never the password itself */
+  PasswordHash?: string;
+  /** HTTP status used for the redirect; absent means DEFAULT_REDIRECT_TYPE */
+  RedirectType?: RedirectType;
+  /** How the visitor's query string is passed on; absent means 'ignore' */
+  QueryMode?: QueryMode;
+  /** utm_* parameters added to the destination unless it already sets them */
+  Utm?: UtmParams;
+  /** Serve link-preview crawlers an Open Graph page instead of the redirect */
+  PreviewMode?: boolean;
+  /** Destination metadata cached by the redirect Lambda for preview pages */
+  PreviewMetadata?: PreviewMetadata;
+  /** Checked in order; the first match replaces OriginalUrl as destination */
+  TargetingRules?: TargetingRule[];
+  /** Weighted destinations splitting the traffic no targeting rule matched */
+  Variants?: Variant[];
+  /** Redirects per variant ID; kept for removed variants too */
+  VariantClicks?: Record<string, number>;
+}
+
+/**
+ * Viewer operating system, as far as CloudFront can tell
+ */
+export type TargetOs = 'ios' | 'android' | 'other';
+
+/**
+ * A redirect rule matching viewers on every condition it sets; each
+ * condition matches any of its values
+ */
+export interface TargetingRule {
+  destination: string;
+  os?: TargetOs[];
+  /** ISO 3166-1 alpha-2 country codes */
+  countries?: string[];
+  /** Language tags matched against the viewer's preferred language; 'en' also matches 'en-GB' */
+  languages?: string[];
+}
+
+/**
+ * Redirect status codes a short link can use
+ */
+export type RedirectType = 301 | 302 | 307 | 308;
+
+/**
+ * How a short link treats query parameters on the short URL:
+ * - ignore: drop them
+ * - append: add them to the destination, keeping its own parameters
+ * - merge: add them to the destination, replacing parameters with the same name
+ */
+export type QueryMode = 'ignore' | 'append' | 'merge';
+
+/**
+ * Campaign settings added to the destination as utm_{field} parameters
+ */
+export interface UtmParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+/**
+ * Interface for one edit of a short URL, kept as its change history:
+ * PK = URL#{shortCode}, SK = HISTORY#{ISO timestamp}
+ */
+export interface UrlChangeRecord {
+  PK: string;
+  SK: string;
+  ShortCode: string;
+  Version: number;
+  ChangedAt: number;
+  ChangedBy?: string;
+  Changes: Record<string, { from: any; to: any }>;
+  EntityType: string;
+}
+
+/**
+ * One destination of an A/B split, chosen for weight / total weight of visitors
+ */
+export interface Variant {
+  id: string;
+  destination: string;
+  weight: number;
+}
+
+/**
+ * Open Graph / Twitter card metadata read from a link's destination
+ */
+export interface PreviewMetadata {
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+  fetchedAt: number;
+}
+
+/**
+ * Marker for a visitor seen recently on a short URL, used to count unique
+ * visitors: PK = URL#{shortCode}, SK = VISITOR#{hash of IP and User-Agent}.
+ * Expires (and DynamoDB deletes it) when the dedupe window ends.
+ */
+export interface VisitorMarker {
+  PK: string;
+  SK: string;
+  ExpiresAt: number;
+  TTL: number;
+  EntityType: string;
+}
+
+/**
+ * Coarse user-agent classification recorded with each click
+ */
+export type DeviceClass = 'bot' | 'mobile' | 'desktop';
+
+/**
+ * Interface for a single redirect recorded in the URL Shortener table.
+ * Stored under the URL's partition so a date range is one Query:
+ * PK = URL#{shortCode}, SK = CLICK#{ISO timestamp}#{id}
+ */
+export interface ClickEvent {
+  PK: string;
+  SK: string;
+  ShortCode: string;
+  Timestamp: number;
+  ReferrerHost?: string;
+  DeviceClass: DeviceClass;
+  Country?: string;
+  /** A/B variant ID the visitor was sent to */
+  Variant?: string;
+  /** False for bots, prefetches and HEAD requests; absent on older events */
+  Human?: boolean;
+  TTL: number;
+  EntityType: string;
+}
+
+/**
+ * Role of an admin API caller: admins manage every link and the API keys,
+ * users only the links they created
+ */
+export type ApiKeyRole = 'admin' | 'user';
+
+/**
+ * Interface for an issued admin API key: PK = APIKEY#{keyId}, SK = METADATA.
+ * Only a hash of the secret is stored; revoked keys are kept for auditing.
+ */
+export interface ApiKeyRecord {
+  PK: string;
+  SK: string;
+  KeyId: string;
+  SecretHash: string;
+  Owner: string;
+  Role: ApiKeyRole;
+  Name?: string;
+  /** Links per hour this key may create; absent means the stack default */
+  RateLimit?: number;
+  CreatedAt: number;
+  CreatedBy: string;
+  RevokedAt?: number;
+  RevokedBy?: string;
+  EntityType: string;
+}
+
+/**
+ * The authenticated caller of the admin API
+ */
+export interface Caller {
+  /** Owner name stored as CreatedBy on the caller's links */
+  id: string;
+  role: ApiKeyRole;
+  /** Absent for the bootstrap admin key */
+  keyId?: string;
+  /** The key's own link creation limit */
+  rateLimit?: number;
 }
@@ -8,7 +8,31 @@ import {
   QueryCommand,
   UpdateCommand,
   BatchWriteCommand,
+  BatchWriteCommandInput,
+  BatchGetCommand,
 } from '@aws-sdk/lib-dynamodb';
+import { sleep } from '../utils/httpUtils';
+
+// DynamoDB limits per BatchWriteItem / BatchGetItem call
+const BATCH_WRITE_LIMIT = 25;
+const BATCH_GET_LIMIT = 100;
+const MAX_BATCH_RETRIES = 5;
+const BATCH_RETRY_BASE_DELAY_MS = 50;
+
+export type BatchWriteRequest = NonNullable<
+  BatchWriteCommandInput['RequestItems']
+>[string][number];
+
+/**
+ * Splits an array into chunks of at most the given size
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
 
 /**
  * Class for interacting with DynamoDB
@@ -143,6 +167,106 @@ export class DynamoDBService {
       throw error;
     }
   }
+
+  /**
+   * Writes put and delete requests in chunks of 25, retrying unprocessed
+   * requests with exponential backoff
+   * @param tableName The name of the DynamoDB table
+   * @param requests The put/delete requests to write
+   * @returns The requests that were still unprocessed after all retries
+   */
+  async batchWriteItems(
+    tableName: string,
+    requests: BatchWriteRequest[]
+  ): Promise<BatchWriteRequest[]> {
+    const unprocessed: BatchWriteRequest[] = [];
+
+    try {
+      for (const requestChunk of chunk(requests, BATCH_WRITE_LIMIT)) {
+        let pending = requestChunk;
+
+        for (
+          let attempt = 0;
+          pending.length > 0 && attempt <= MAX_BATCH_RETRIES;
+          attempt++
+        ) {
+          if (attempt > 0) {
+            await sleep(BATCH_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+          }
+
+          const { UnprocessedItems } = await this.documentClient.send(
+            new BatchWriteCommand({ RequestItems: { [tableName]: pending } })
+          );
+          pending = UnprocessedItems?.[tableName] || [];
+        }
+
+        unprocessed.push(...pending);
+      }
+
+      return unprocessed;
+    } catch (error) {
+      console.error(`Error batch writing to ${tableName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads items by key in chunks of 100, retrying unprocessed keys with
+   * exponential backoff
+   * @param tableName The name of the DynamoDB table
+   * @param keys The primary keys of the items to read
+   * @param projectionExpression Optional attributes to return
+   * @returns The items found, in no particular order
+   */
+  async batchGetItems<T = Record<string, any>>(
+    tableName: string,
+    keys: Record<string, any>[],
+    projectionExpression?: string
+  ): Promise<T[]> {
+    const items: T[] = [];
+
+    try {
+      for (const keyChunk of chunk(keys, BATCH_GET_LIMIT)) {
+        let pending: Record<string, any>[] = keyChunk;
+
+        for (
+          let attempt = 0;
+          pending.length > 0 && attempt <= MAX_BATCH_RETRIES;
+          attempt++
+        ) {
+          if (attempt > 0) {
+            await sleep(BATCH_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+          }
+
+          const { Responses, UnprocessedKeys } = await this.documentClient.send(
+            new BatchGetCommand({
+              RequestItems: {
+                [tableName]: {
+                  Keys: pending,
+                  ...(projectionExpression
+                    ? { ProjectionExpression: projectionExpression }
+                    : {}),
+                },
+              },
+            })
+          );
+          items.push(...((Responses?.[tableName] as T[]) || []));
+          pending = UnprocessedKeys?.[tableName]?.Keys || [];
+        }
+
+        if (pending.length > 0) {
+          throw new Error(
+            `${pending.length} keys were still unprocessed after retries`
+          );
+        }
+      }
+
+      return items;
+    } catch (error) {
+      console.error(`Error batch getting from ${tableName}:`, error);
+      throw error;
+    }
+  }
 }
 
 // Create a default instance for ease of use
@@ -0,0 +1,239 @@
+import dynamoDBService from './dynamoDbClient';
+
+export type CacheSource = 'memory' | 'dynamodb';
+
+export interface CachedResponse {
+  data: any;
+  /** Layer that answered: this container's memory or the shared table */
+  source: CacheSource;
+}
+
+interface CacheEntry {
+  data: any;
+  /** When the cached response was requested upstream (ms) */
+  storedAt: number;
+  expiresAt: number;
+  tags: string[];
+}
+
+// DynamoDB items are capped at 400 KB; larger responses stay in memory only
+const MAX_TABLE_ENTRY_BYTES = 350 * 1024;
+// Invalidation markers must outlive every entry they invalidate
+const TAG_RETENTION_SECONDS = 24 * 60 * 60;
+
+/**
+ * Two-level response cache: an LRU map that lives as long as the Lambda
+ * container, backed by a DynamoDB table shared by all containers.
+ *
+ * Entries carry tags. Invalidating a tag records when it happened, and
+ * entries stored before that are treated as misses, so nothing has to be
+ * looked up or deleted entry by entry. The markers are read from the table
+ * on every hit of a tagged entry, memory hits included, so that other
+ * containers' invalidations apply at once: such hits cost one BatchGetItem.
+ *
+ * Cache errors are logged and otherwise ignored: a DynamoDB outage only costs
+ * cache hits.
+ *
+ * Table layout (PK):
+ * - ENTRY#<key> - Data (JSON), StoredAt, ExpiresAt, Tags, TTL
+ * - TAG#<tag>   - InvalidatedAt, TTL
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  // Invalidation times, used instead of the table when there is none
+  private readonly invalidations = new Map<string, number>();
+
+  /**
+   * Creates a cache
+   * @param tableName DynamoDB table; when omitted the cache is memory-only
+   * @param maxMemoryEntries Entries kept in memory before the least recently
+   * used ones are evicted
+   */
+  constructor(
+    private readonly tableName?: string,
+    private readonly maxMemoryEntries = 500
+  ) {}
+
+  /**
+   * Looks up a cached response
+   * @param key Cache key
+   * @returns The response, or undefined if missing, expired or invalidated
+   */
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      const now = Date.now();
+      let source: CacheSource = 'memory';
+      let entry = this.entries.get(key);
+
+      if (!entry || entry.expiresAt <= now) {
+        this.entries.delete(key);
+        entry = await this.getFromTable(key, now);
+        source = 'dynamodb';
+      }
+      if (!entry) {
+        return undefined;
+      }
+
+      if (await this.isInvalidated(entry)) {
+        this.entries.delete(key);
+        return undefined;
+      }
+
+      this.remember(key, entry);
+      return { data: entry.data, source };
+    } catch (error) {
+      console.error(`Cache lookup failed for ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a response
+   * @param key Cache key
+   * @param data The response body
+   * @param ttlSeconds How long the entry is served
+   * @param tags Tags that invalidate the entry
+   * @param storedAt When the response was requested upstream, so that an
+   * invalidation made while the request was in flight still applies
+   */
+  async set(
+    key: string,
+    data: any,
+    ttlSeconds: number,
+    tags: string[] = [],
+    storedAt = Date.now()
+  ): Promise<void> {
+    const entry: CacheEntry = {
+      data,
+      storedAt,
+      expiresAt: storedAt + ttlSeconds * 1000,
+      tags: [...new Set(tags)],
+    };
+    this.remember(key, entry);
+
+    if (!this.tableName) {
+      return;
+    }
+
+    const json = JSON.stringify(data);
+    if (Buffer.byteLength(json) > MAX_TABLE_ENTRY_BYTES) {
+      console.warn(`Response for ${key} is too large for the cache table`);
+      return;
+    }
+
+    try {
+      await dynamoDBService.putItem(this.tableName, {
+        PK: `ENTRY#${key}`,
+        Data: json,
+        StoredAt: entry.storedAt,
+        ExpiresAt: entry.expiresAt,
+        Tags: entry.tags,
+        TTL: Math.ceil(entry.expiresAt / 1000),
+      });
+    } catch (error) {
+      console.error(`Cache write failed for ${key}:`, error);
+    }
+  }
+
+  /**
+   * Invalidates every entry stored with any of the tags
+   * @param tags The tags to invalidate
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    const uniqueTags = [...new Set(tags)];
+    if (uniqueTags.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    if (!this.tableName) {
+      uniqueTags.forEach((tag) => this.invalidations.set(tag, now));
+      return;
+    }
+
+    try {
+      const unprocessed = await dynamoDBService.batchWriteItems(
+        this.tableName,
+        uniqueTags.map((tag) => ({
+          PutRequest: {
+            Item: {
+              PK: `TAG#${tag}`,
+              InvalidatedAt: now,
+              TTL: Math.floor(now / 1000) + TAG_RETENTION_SECONDS,
+            },
+          },
+        }))
+      );
+      if (unprocessed.length > 0) {
+        console.error(
+          `Failed to invalidate ${unprocessed.length} of ${uniqueTags.length} cache tags`
+        );
+      }
+    } catch (error) {
+      console.error(`Cache invalidation failed for ${uniqueTags}:`, error);
+    }
+  }
+
+  private async getFromTable(
+    key: string,
+    now: number
+  ): Promise<CacheEntry | undefined> {
+    if (!this.tableName) {
+      return undefined;
+    }
+
+    const item = await dynamoDBService.getItem(this.tableName, {
+      PK: `ENTRY#${key}`,
+    });
+    if (!item || item.ExpiresAt <= now) {
+      return undefined;
+    }
+
+    return {
+      data: JSON.parse(item.Data),
+      storedAt: item.StoredAt,
+      expiresAt: item.ExpiresAt,
+      tags: item.Tags || [],
+    };
+  }
+
+  /**
+   * Checks whether any of the entry's tags was invalidated after it was
+   * stored. Not cached: a marker may have been written by another container.
+   */
+  private async isInvalidated(entry: CacheEntry): Promise<boolean> {
+    if (entry.tags.length === 0) {
+      return false;
+    }
+
+    if (!this.tableName) {
+      return entry.tags.some(
+        (tag) => (this.invalidations.get(tag) ?? 0) >= entry.storedAt
+      );
+    }
+
+    const markers = await dynamoDBService.batchGetItems<{
+      InvalidatedAt: number;
+    }>(
+      this.tableName,
+      entry.tags.map((tag) => ({ PK: `TAG#${tag}` })),
+      'InvalidatedAt'
+    );
+    return markers.some((marker) => marker.InvalidatedAt >= entry.storedAt);
+  }
+
+  /**
+   * Keeps an entry in memory as the most recently used one
+   */
+  private remember(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    if (this.entries.size > this.maxMemoryEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+  }
+}
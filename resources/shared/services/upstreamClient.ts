@@ -0,0 +1,290 @@
+import axios from 'axios';
+import { sleep } from '../utils/httpUtils';
+
+export type UpstreamMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+// Methods that are safe to send twice
+const IDEMPOTENT_METHODS: UpstreamMethod[] = ['GET', 'PUT', 'DELETE'];
+
+export interface UpstreamRequest {
+  method: UpstreamMethod;
+  url: string;
+  headers?: Record<string, string>;
+  data?: any;
+  /**
+   * Whether the call may be repeated after a 5xx or network error. Defaults
+   * to true for GET, PUT and DELETE; set it for POSTs that only read.
+   */
+  idempotent?: boolean;
+  /**
+   * Epoch ms by which the call must be over: attempts time out at it and no
+   * retry is started after it
+   */
+  deadline?: number;
+}
+
+export interface UpstreamResponse {
+  status: number;
+  data: any;
+}
+
+export interface UpstreamClientOptions {
+  /** Per-attempt timeout (default: 15000) */
+  timeoutMs?: number;
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** First backoff delay, doubled on every retry (default: 500) */
+  baseDelayMs?: number;
+  /** Longest wait before a retry, Retry-After included (default: 8000) */
+  maxDelayMs?: number;
+  /** Consecutive failed calls that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long an open circuit fails fast before a trial call (default: 30000) */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * A failed upstream call, mapped to the status the gateway returns: the
+ * upstream's own 4xx, 502 for 5xx and network errors, 503 while throttled or while the
+ * circuit is open, and 504 for timeouts
+ */
+export class UpstreamError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    /** Seconds the caller should wait before trying again */
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * Reads a Retry-After header, in seconds or as an HTTP date
+ * @returns The delay in ms, or undefined if absent or invalid
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Message of a failed upstream call: the response body when there is one
+ */
+function errorMessage(error: any): string {
+  const data = error.response?.data;
+  if (data) {
+    return typeof data === 'string' ? data : JSON.stringify(data);
+  }
+  return error.message || 'Upstream request failed';
+}
+
+/**
+ * HTTP client for one upstream service. Calls are retried with exponential
+ * backoff on 429 and, when idempotent, on 5xx and network errors. A circuit
+ * breaker fails calls fast with 503 once the service keeps failing.
+ */
+export class UpstreamClient {
+  private readonly options: Required<UpstreamClientOptions>;
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  /**
+   * Creates a client with its own circuit breaker
+   * @param name Service name used in logs and errors
+   * @param options Timeouts, retry and circuit breaker settings
+   */
+  constructor(
+    private readonly name: string,
+    options: UpstreamClientOptions = {}
+  ) {
+    this.options = {
+      timeoutMs: 15000,
+      maxRetries: 3,
+      baseDelayMs: 500,
+      maxDelayMs: 8000,
+      failureThreshold: 5,
+      resetTimeoutMs: 30000,
+      ...options,
+    };
+  }
+
+  /**
+   * Sends a request
+   * @param request Method, URL, headers and body
+   * @returns The upstream response (2xx/3xx)
+   * @throws UpstreamError when the call fails or the circuit is open
+   */
+  async request(request: UpstreamRequest): Promise<UpstreamResponse> {
+    const idempotent =
+      request.idempotent ?? IDEMPOTENT_METHODS.includes(request.method);
+    const trial = this.acquire();
+
+    try {
+      const response = await this.send(request, idempotent);
+      this.recordSuccess();
+      return response;
+    } catch (error) {
+      // Throttling (503) and client errors mean the service is up
+      if (
+        error instanceof UpstreamError &&
+        (error.statusCode === 502 || error.statusCode === 504)
+      ) {
+        this.recordFailure(trial);
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sends the request, retrying until it succeeds, fails for good or runs
+   * out of retries
+   */
+  private async send(
+    request: UpstreamRequest,
+    idempotent: boolean
+  ): Promise<UpstreamResponse> {
+    const { maxRetries, baseDelayMs, maxDelayMs, timeoutMs } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      const timeLeft = (request.deadline ?? Infinity) - Date.now();
+      if (timeLeft <= 0) {
+        throw new UpstreamError(504, `${this.name} did not respond in time`);
+      }
+
+      try {
+        const response = await axios.request({
+          method: request.method,
+          url: request.url,
+          headers: request.headers,
+          data: request.data,
+          timeout: Math.min(timeoutMs, timeLeft),
+        });
+        return { status: response.status, data: response.data };
+      } catch (error: any) {
+        const status: number | undefined = error.response?.status;
+        const timedOut =
+          error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+        const retryAfter = parseRetryAfter(
+          error.response?.headers?.['retry-after']
+        );
+
+        // Throttled calls were rejected before doing anything, so they are
+        // safe to repeat; a timed-out call has used up the time for retries
+        const retryable =
+          status === 429 ||
+          (idempotent && !timedOut && (!status || status >= 500));
+        const delay = Math.max(
+          Math.min(baseDelayMs * Math.pow(2, attempt), maxDelayMs) +
+            Math.random() * baseDelayMs,
+          retryAfter ?? 0
+        );
+
+        // Longer Retry-After waits are passed on to the caller instead
+        if (
+          !retryable ||
+          attempt >= maxRetries ||
+          (retryAfter ?? 0) > maxDelayMs ||
+          Date.now() + delay >= (request.deadline ?? Infinity)
+        ) {
+          console.error(
+            `${this.name} ${request.method} ${request.url} failed after ${attempt + 1} attempts:`,
+            status ?? error.code ?? error.message
+          );
+          throw this.toUpstreamError(error, status, timedOut, retryAfter);
+        }
+
+        console.warn(
+          `${this.name} ${request.method} answered ${status ?? error.code}. Attempt ${attempt + 1}/${maxRetries}. Retrying in ${Math.round(delay)}ms...`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Maps a failed axios call to the status the gateway returns
+   */
+  private toUpstreamError(
+    error: any,
+    status: number | undefined,
+    timedOut: boolean,
+    retryAfter: number | undefined
+  ): UpstreamError {
+    if (timedOut) {
+      return new UpstreamError(504, `${this.name} did not respond in time`);
+    }
+    if (status === 429) {
+      return new UpstreamError(
+        503,
+        `${this.name} is throttling requests`,
+        Math.ceil((retryAfter ?? this.options.maxDelayMs) / 1000)
+      );
+    }
+    if (status && status < 500) {
+      return new UpstreamError(status, errorMessage(error));
+    }
+    return new UpstreamError(
+      502,
+      status
+        ? `${this.name} failed with status ${status}: ${errorMessage(error)}`
+        : `${this.name} is unreachable: ${error.code || error.message}`
+    );
+  }
+
+  /**
+   * Lets a call through the circuit breaker. Once the reset timeout of an
+   * open circuit has passed, one trial call goes through while the others
+   * keep failing fast.
+   * @returns True for the trial call of a half-open circuit
+   * @throws UpstreamError(503) while the circuit is open
+   */
+  private acquire(): boolean {
+    if (this.consecutiveFailures < this.options.failureThreshold) {
+      return false;
+    }
+
+    const now = Date.now();
+    if (now < this.openUntil || this.trialInFlight) {
+      throw new UpstreamError(
+        503,
+        `${this.name} is unavailable`,
+        Math.max(1, Math.ceil((this.openUntil - now) / 1000))
+      );
+    }
+
+    this.trialInFlight = true;
+    return true;
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  private recordFailure(trial: boolean): void {
+    this.consecutiveFailures++;
+    if (trial) {
+      this.trialInFlight = false;
+    }
+    if (this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openUntil = Date.now() + this.options.resetTimeoutMs;
+      if (this.consecutiveFailures === this.options.failureThreshold) {
+        console.warn(`${this.name} circuit opened after repeated failures`);
+      }
+    }
+  }
+}
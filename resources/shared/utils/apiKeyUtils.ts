@@ -0,0 +1,75 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  API_KEY_ID_LENGTH,
+  API_KEY_PREFIX,
+  API_KEY_SECRET_BYTES,
+} from '../constants/constants';
+import { getHeader } from './httpUtils';
+import { generateShortCode } from './shortCodeUtils';
+
+/**
+ * Hashes an API key secret for storage. Secrets are 256 random bits, so a
+ * plain SHA-256 is enough and keeps every request cheap (unlike scrypt).
+ * @param secret The key secret
+ * @returns The hash (base64url)
+ */
+export function hashApiKeySecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('base64url');
+}
+
+/**
+ * Compares two strings in constant time by comparing their SHA-256 digests
+ */
+export function safeEqual(a: string, b: string): boolean {
+  return timingSafeEqual(
+    createHash('sha256').update(a).digest(),
+    createHash('sha256').update(b).digest()
+  );
+}
+
+/**
+ * Generates a new API key
+ * @returns The key ID, its secret and the full key handed to the caller
+ */
+export function generateApiKey(): {
+  keyId: string;
+  secret: string;
+  key: string;
+} {
+  const keyId = generateShortCode(API_KEY_ID_LENGTH);
+  const secret = randomBytes(API_KEY_SECRET_BYTES).toString('base64url');
+  return { keyId, secret, key: `${API_KEY_PREFIX}_${keyId}_${secret}` };
+}
+
+/**
+ * Splits an API key into its key ID and secret
+ * @param key The full key
+ * @returns The parts, or null if the key is not in usk_{keyId}_{secret} form
+ */
+export function parseApiKey(
+  key: string
+): { keyId: string; secret: string } | null {
+  const match = new RegExp(
+    `^${API_KEY_PREFIX}_([A-Za-z0-9]{${API_KEY_ID_LENGTH}})_([A-Za-z0-9_-]+)$`
+  ).exec(key);
+  return match ? { keyId: match[1], secret: match[2] } : null;
+}
+
+/**
+ * Reads the API key from the X-Api-Key header or an Authorization bearer token
+ * @param event API Gateway event
+ * @returns The key, or undefined if none was sent
+ */
+export function getApiKeyFromRequest(
+  event: APIGatewayProxyEvent
+): string | undefined {
+  const apiKey = getHeader(event.headers, 'X-Api-Key')?.trim();
+  if (apiKey) {
+    return apiKey;
+  }
+
+  const authorization = getHeader(event.headers, 'Authorization');
+  const match = authorization && /^Bearer\s+(\S+)$/i.exec(authorization);
+  return match ? match[1] : undefined;
+}
@@ -0,0 +1,95 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { DeviceClass } from '../models/urlShortenerTypes';
+import { getHeader } from './httpUtils';
+
+const BOT_PATTERN =
+  /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|unfurl|headless|lighthouse|curl|wget|python-requests|go-http-client|okhttp|axios|java\//i;
+
+// Crawlers that fetch a link to render a preview card when it is shared.
+// Only crawler tokens are matched: the in-app browsers of WhatsApp, Teams and
+// Pinterest also name the app, but people use them. WhatsApp's crawler sends
+// a bare WhatsApp/<version> UA, and Teams previews come from SkypeUriPreview.
+const PREVIEW_CRAWLER_PATTERN =
+  /slackbot|slack-imgproxy|twitterbot|facebookexternalhit|facebot|linkedinbot|discordbot|telegrambot|^whatsapp\/|skypeuripreview|microsoftpreview|embedly|pinterestbot|redditbot|mastodon|iframely|vkshare|bitlybot/i;
+
+const MOBILE_PATTERN =
+  /mobi|android|iphone|ipad|ipod|windows phone|blackberry|opera mini/i;
+
+/**
+ * Classifies a User-Agent header as bot, mobile or desktop.
+ * A missing User-Agent is treated as a bot since real browsers always send one.
+ * @param userAgent The User-Agent header value
+ * @returns The device class
+ */
+export function classifyUserAgent(userAgent?: string): DeviceClass {
+  if (!userAgent || BOT_PATTERN.test(userAgent)) {
+    return 'bot';
+  }
+
+  return MOBILE_PATTERN.test(userAgent) ? 'mobile' : 'desktop';
+}
+
+/**
+ * Checks whether a User-Agent belongs to a link-preview crawler (Slack,
+ * Teams, social networks and chat apps unfurling a shared link)
+ * @param userAgent The User-Agent header value
+ * @returns True for known preview crawlers
+ */
+export function isPreviewCrawler(userAgent?: string): boolean {
+  return !!userAgent && PREVIEW_CRAWLER_PATTERN.test(userAgent);
+}
+
+/**
+ * Checks whether a request is a browser prefetch or prerender rather than a
+ * visit, using the Purpose / Sec-Purpose / X-Purpose / X-Moz headers
+ * @param event API Gateway event
+ * @returns True for speculative requests
+ */
+export function isPrefetch(event: APIGatewayProxyEvent): boolean {
+  return ['Purpose', 'Sec-Purpose', 'X-Purpose', 'X-Moz'].some((name) =>
+    /prefetch|prerender|preview/i.test(getHeader(event.headers, name) || '')
+  );
+}
+
+/**
+ * Checks whether a redirect request comes from a person following the link:
+ * not a bot, not a prefetch and not a HEAD request from a link checker
+ * @param event API Gateway event
+ * @returns True for human clicks
+ */
+export function isHumanClick(event: APIGatewayProxyEvent): boolean {
+  return (
+    event.httpMethod !== 'HEAD' &&
+    classifyUserAgent(getHeader(event.headers, 'User-Agent')) !== 'bot' &&
+    !isPrefetch(event)
+  );
+}
+
+/**
+ * Extracts the host name from a Referer header
+ * @param referer The Referer header value
+ * @returns The lower-cased host name, or undefined for a missing or invalid referer
+ */
+export function extractReferrerHost(referer?: string): string | undefined {
+  if (!referer) {
+    return undefined;
+  }
+
+  try {
+    return new URL(referer).hostname.toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the viewer country CloudFront adds to origin requests
+ * @param event API Gateway event
+ * @returns The ISO 3166-1 alpha-2 country code, or undefined if not forwarded
+ */
+export function extractCountry(
+  event: APIGatewayProxyEvent
+): string | undefined {
+  const country = getHeader(event.headers, 'CloudFront-Viewer-Country');
+  return country ? country.toUpperCase() : undefined;
+}
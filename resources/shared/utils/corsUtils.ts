@@ -1,4 +1,8 @@
-import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+} from 'aws-lambda';
 
 const ALLOWED_ORIGINS: string[] = [
   'https://logwork.fhmhub.com',
@@ -35,7 +39,9 @@ export function getCorsHeaders(
       : {}),
     'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
     'Access-Control-Allow-Headers':
-      'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token',
+      'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, Cache-Control',
+    // Lets browser clients read throttling, cache and export paging headers
+    'Access-Control-Expose-Headers': 'Retry-After, X-Cache, X-Next-Cursor',
     Vary: 'Origin',
   };
 }
@@ -48,12 +54,20 @@ export function getCorsHeaders(
  * - Handles OPTIONS preflight requests automatically
  * - Adds CORS headers to all success and error responses
  * - Catches unhandled errors and still returns proper CORS headers
+ * - Passes the Lambda context through, for handlers that watch their timeout
  */
 export function withCors(
-  handler: (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>
-): (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult> {
+  handler: (
+    event: APIGatewayProxyEvent,
+    context?: Context
+  ) => Promise<APIGatewayProxyResult>
+): (
+  event: APIGatewayProxyEvent,
+  context?: Context
+) => Promise<APIGatewayProxyResult> {
   return async (
-    event: APIGatewayProxyEvent
+    event: APIGatewayProxyEvent,
+    context?: Context
   ): Promise<APIGatewayProxyResult> => {
     const corsHeaders = getCorsHeaders(event);
 
@@ -66,7 +80,7 @@ export function withCors(
     }
 
     try {
-      const response = await handler(event);
+      const response = await handler(event, context);
       return {
         ...response,
         headers: {
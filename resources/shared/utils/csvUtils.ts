@@ -0,0 +1,138 @@
+// Spreadsheets evaluate fields starting with these as formulas. Values that
+// already start with quotes before one get another, so the prefix round-trips.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Prefixes a quote to values a spreadsheet would run as a formula
+ */
+function neutralizeFormula(value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Removes the quote neutralizeFormula added
+ */
+function restoreFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value)
+    ? value.slice(1)
+    : value;
+}
+
+/**
+ * Serializes records as RFC 4180 CSV with a header row
+ * @param columns Column names, in output order
+ * @param rows Records keyed by column name; null and undefined become empty
+ * fields, and values starting with =, +, -, @ or a tab are prefixed with '
+ * @returns The CSV text, lines separated by CRLF
+ */
+export function toCsv(
+  columns: readonly string[],
+  rows: Record<string, unknown>[]
+): string {
+  const lines = [columns.map(escapeCsvField).join(',')];
+  for (const row of rows) {
+    lines.push(
+      columns
+        .map((column) => {
+          const value = row[column];
+          return value === null || value === undefined
+            ? ''
+            : escapeCsvField(neutralizeFormula(String(value)));
+        })
+        .join(',')
+    );
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parses RFC 4180 CSV text into rows of fields. Quoted fields may contain
+ * delimiters, doubled quotes and line breaks; a leading byte order mark and
+ * blank lines are skipped.
+ * @param text The CSV text
+ * @returns The rows, or null if a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] | null {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    return null;
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parses CSV text whose first row names the columns into records, undoing
+ * the formula prefix added by toCsv
+ * @param text The CSV text
+ * @returns One record per data row keyed by trimmed column name, or null for malformed CSV
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] | null {
+  const rows = parseCsv(text);
+  if (!rows || rows.length === 0) {
+    return rows && [];
+  }
+
+  const [header, ...dataRows] = rows;
+  const columns = header.map((column) => column.trim());
+
+  return dataRows.map((fields) =>
+    Object.fromEntries(
+      columns.map((column, index) => [
+        column,
+        restoreFormula(fields[index] ?? ''),
+      ])
+    )
+  );
+}
@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signs an HMAC-SHA256 over the encoded payload
+ */
+function sign(encodedPayload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(encodedPayload).digest();
+}
+
+/**
+ * Encodes a pagination position as an opaque, tamper-proof cursor
+ * of the form base64url(JSON payload) + '.' + base64url(HMAC)
+ * @param payload The pagination state (e.g. a DynamoDB LastEvaluatedKey)
+ * @param secret The signing secret
+ * @returns The cursor string
+ */
+export function encodeCursor(payload: unknown, secret: string): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    'base64url'
+  );
+  return `${encodedPayload}.${sign(encodedPayload, secret).toString('base64url')}`;
+}
+
+/**
+ * Decodes and verifies a cursor produced by encodeCursor
+ * @param cursor The cursor string from the client
+ * @param secret The signing secret
+ * @returns The payload, or null if the cursor is malformed or its signature does not match
+ */
+export function decodeCursor<T = any>(
+  cursor: string,
+  secret: string
+): T | null {
+  const [encodedPayload, encodedSignature, ...rest] = cursor.split('.');
+  if (!encodedPayload || !encodedSignature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = sign(encodedPayload, secret);
+  const actual = Buffer.from(encodedSignature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString('utf8')
+    ) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,64 @@
+import { UrlData } from '../models/urlShortenerTypes';
+import {
+  OWNER_EMAIL_MAX_LENGTH,
+  OWNER_EMAIL_PATTERN,
+} from '../constants/constants';
+import { ErrorDetail } from './responseUtils';
+
+/**
+ * Value of ExpiryNotification while an expiry warning is still due
+ */
+export const EXPIRY_NOTIFICATION_PENDING = 'PENDING';
+
+/**
+ * Gets the time a link stops redirecting
+ * @param urlData The link
+ * @returns ExpiresAt, or TTL for links created before the grace period; undefined if the link never expires
+ */
+export function linkExpiresAt(
+  urlData: Pick<UrlData, 'ExpiresAt' | 'TTL'>
+): number | undefined {
+  return urlData.ExpiresAt ?? (urlData.TTL ? urlData.TTL * 1000 : undefined);
+}
+
+/**
+ * Sets the attributes that follow a link's ExpiresAt and OwnerEmail: TTL
+ * deletes the item once the grace period after expiry has passed, and
+ * ExpiryNotification keeps it in the sparse notification index while a
+ * warning is due
+ * @param urlData The link, updated in place
+ * @param graceDays Days expired links are kept before deletion
+ */
+export function applyExpiry(urlData: UrlData, graceDays: number): void {
+  if (urlData.ExpiresAt) {
+    urlData.TTL =
+      Math.floor(urlData.ExpiresAt / 1000) + graceDays * 24 * 60 * 60;
+  } else {
+    delete urlData.TTL;
+  }
+
+  if (urlData.ExpiresAt && urlData.OwnerEmail) {
+    urlData.ExpiryNotification = EXPIRY_NOTIFICATION_PENDING;
+  } else {
+    delete urlData.ExpiryNotification;
+  }
+}
+
+/**
+ * Validates the email address expiry warnings are sent to
+ * @param ownerEmail The requested address
+ * @returns An error detail, or null if the address is valid
+ */
+export function validateOwnerEmail(ownerEmail: unknown): ErrorDetail | null {
+  if (
+    typeof ownerEmail !== 'string' ||
+    ownerEmail.length > OWNER_EMAIL_MAX_LENGTH ||
+    !OWNER_EMAIL_PATTERN.test(ownerEmail)
+  ) {
+    return {
+      code: 'INVALID_OWNER_EMAIL',
+      detail: 'ownerEmail must be a valid email address',
+    };
+  }
+  return null;
+}
@@ -0,0 +1,81 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+
+/**
+ * Escapes text for safe interpolation into HTML content and attributes
+ * @param value The text to escape
+ * @returns The escaped text
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Checks whether a client asked for an HTML page (as browsers do) rather
+ * than an API response
+ * @param accept The Accept header value
+ * @returns True if the Accept header lists an HTML media type
+ */
+export function acceptsHtml(accept?: string): boolean {
+  return !!accept && /text\/html|application\/xhtml\+xml/i.test(accept);
+}
+
+/**
+ * Wraps page content in a minimal, self-contained HTML document
+ * @param title The page title (plain text, escaped here)
+ * @param body The page body (HTML, inserted as-is)
+ * @param head Extra HTML for the <head> element (inserted as-is)
+ * @returns The HTML document
+ */
+export function renderPage(title: string, body: string, head = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+${head}
+<style>
+body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;font-family:system-ui,-apple-system,sans-serif;background:#f5f5f7;color:#1d1d1f}
+main{max-width:420px;padding:32px;background:#fff;border-radius:12px;box-shadow:0 2px 12px rgba(0,0,0,.08);text-align:center}
+h1{font-size:1.4rem;margin:0 0 12px}
+p{color:#515154;line-height:1.5}
+input{width:100%;box-sizing:border-box;padding:10px;margin:12px 0;border:1px solid #d2d2d7;border-radius:8px;font-size:1rem}
+button{width:100%;padding:10px;border:0;border-radius:8px;background:#0071e3;color:#fff;font-size:1rem;cursor:pointer}
+.error{color:#d70015}
+</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>`;
+}
+
+/**
+ * Creates an HTML API Gateway response
+ * @param statusCode HTTP status code
+ * @param html The HTML document
+ * @param headers Extra response headers
+ * @returns Formatted API Gateway response
+ */
+export function htmlResponse(
+  statusCode: number,
+  html: string,
+  headers: Record<string, string> = {}
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      ...headers,
+    },
+    body: html,
+  };
+}
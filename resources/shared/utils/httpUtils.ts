@@ -1,5 +1,5 @@
-import axios from 'axios';
-import { JiraInstance } from '../models/types';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { JiraInstanceConfig } from '../models/types';
 
 /**
  * Sleep for a specified number of milliseconds
@@ -10,69 +10,32 @@ export async function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Send an HTTP POST request with retry logic for rate limiting and server errors
- * @param url The URL to send the request to
- * @param payload The payload to send in the request body
- * @param headers The headers to include in the request
- * @param maxRetries The maximum number of retries (default: 10)
- * @returns The response from the server
+ * Build the upstream headers for a Jira instance's header profile
+ * @param token The caller's Jira bearer token
+ * @param jira The Jira instance from the registry
+ * @returns The request headers
  */
-export async function sendRequest(
-  url: string,
-  payload: any,
-  headers: any,
-  maxRetries: number = 10
-): Promise<any> {
-  console.log(`Send an HTTP request to: ${url}`);
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      const response = await axios.post(url, payload, {
-        headers,
-        timeout: 15000,
-      });
-      console.log(`Response [${response.status}]: ${response.data}`);
-      return response;
-    } catch (error: any) {
-      const isRateLimitError = error.response?.status === 429;
-      const isServerError = error.response?.status >= 500;
-      const shouldRetry =
-        (isRateLimitError || isServerError) && attempt < maxRetries;
-
-      if (!shouldRetry) {
-        console.error(`Request failed after ${attempt + 1} attempts: ${error}`);
-        throw error;
-      }
-
-      // Exponential backoff with jitter
-      const baseDelay = Math.min(1000 * Math.pow(2, attempt), 30000);
-      const jitter = Math.random() * 1000;
-      const delay = baseDelay + jitter;
-
-      console.warn(
-        `Rate limited (429) or server error. Attempt ${attempt + 1}/${maxRetries}. Retrying in ${Math.round(delay)}ms...`
-      );
-
-      await sleep(delay);
-    }
-  }
-
-  throw new Error('Max retries exceeded');
-}
-
 export function createJiraHeaders(
   token: string,
-  jiraSystem: JiraInstance = 'jira9'
+  jira: JiraInstanceConfig
 ): Record<string, string> {
+  if (jira.headerProfile === 'api') {
+    return {
+      accept: 'application/json',
+      'content-type': 'application/json',
+      authorization: `Bearer ${token}`,
+    };
+  }
+
   return {
     Connection: 'close',
     'Accept-Encoding': 'None',
     accept: 'application/json, text/javascript, */*; q=0.01',
     'accept-language': 'en-US,en;q=0.9,vi;q=0.8',
     'content-type': 'application/json',
-    origin: 'https://insight.fsoft.com.vn',
+    origin: new URL(jira.baseUrl).origin,
     priority: 'u=0, i',
-    referer: `https://insight.fsoft.com.vn/${jiraSystem}/`,
+    referer: `${jira.baseUrl}/`,
     'sec-ch-ua':
       '"Not(A:Brand";v="99", "Google Chrome";v="133", "Chromium";v="133"',
     'sec-ch-ua-mobile': '?0',
@@ -86,6 +49,95 @@ export function createJiraHeaders(
   };
 }
 
+/**
+ * Reads a request header case-insensitively
+ * @param headers The request headers (e.g. event.headers)
+ * @param name The header name
+ * @returns The header value or undefined if absent
+ */
+export function getHeader(
+  headers: Record<string, string | undefined> | null | undefined,
+  name: string
+): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const target = name.toLowerCase();
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === target);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Reads a cookie from the Cookie request header
+ * @param headers The request headers
+ * @param name The cookie name
+ * @returns The decoded cookie value, or undefined if not sent
+ */
+export function getCookie(
+  headers: Record<string, string | undefined> | null | undefined,
+  name: string
+): string | undefined {
+  for (const pair of (getHeader(headers, 'Cookie') || '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the client IP address of a request from the CloudFront-Viewer-Address
+ * header (ip:port) CloudFront adds, falling back to the connecting address.
+ * X-Forwarded-For is not used: its leading entries are whatever the client
+ * sent.
+ * @param event API Gateway event
+ * @returns The client IP address, or undefined if unknown
+ */
+export function getSourceIp(event: APIGatewayProxyEvent): string | undefined {
+  const viewerAddress = getHeader(event.headers, 'CloudFront-Viewer-Address');
+  if (viewerAddress) {
+    const portSeparator = viewerAddress.lastIndexOf(':');
+    return portSeparator > 0
+      ? viewerAddress.slice(0, portSeparator)
+      : viewerAddress;
+  }
+  return event.requestContext?.identity?.sourceIp || undefined;
+}
+
+// Request headers that carry credentials
+const CREDENTIAL_HEADERS = ['authorization', 'x-api-key', 'cookie'];
+
+/**
+ * Copy of an event that is safe to log: the body is left out, since it may
+ * hold link or unlock passwords, and credential headers are redacted
+ * @param event API Gateway event
+ * @returns The event with a null body and redacted headers
+ */
+export function loggableEvent(
+  event: APIGatewayProxyEvent
+): APIGatewayProxyEvent {
+  const redact = <T>(headers: Record<string, T> | null, redacted: T) =>
+    Object.fromEntries(
+      Object.entries(headers || {}).map(([name, value]) => [
+        name,
+        CREDENTIAL_HEADERS.includes(name.toLowerCase()) ? redacted : value,
+      ])
+    );
+
+  return {
+    ...event,
+    headers: redact(event.headers, '[redacted]'),
+    multiValueHeaders: redact(event.multiValueHeaders, ['[redacted]']),
+    body: null,
+  };
+}
+
 /**
  * Parses a JSON string to an object
  * @param body The JSON string to parse
@@ -0,0 +1,49 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+/**
+ * Derives a scrypt key for the given password and salt
+ */
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_BYTES, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Hashes a password with scrypt and a random salt
+ * @param password The plain-text password
+ * @returns The hash encoded as scrypt$<salt>$<key> (base64url)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+}
+
+/**
+ * Checks a password against a hash produced by hashPassword
+ * @param password The plain-text password to check
+ * @param storedHash The stored hash
+ * @returns True if the password matches
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, encodedSalt, encodedKey] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !encodedSalt || !encodedKey) {
+    return false;
+  }
+
+  const expected = Buffer.from(encodedKey, 'base64url');
+  const actual = await deriveKey(
+    password,
+    Buffer.from(encodedSalt, 'base64url')
+  );
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,215 @@
+import {
+  PREVIEW_FETCH_TIMEOUT_MS,
+  PREVIEW_MAX_HTML_LENGTH,
+} from '../constants/constants';
+import { PreviewMetadata } from '../models/urlShortenerTypes';
+import { escapeHtml, renderPage } from './htmlUtils';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decodes the HTML entities commonly found in meta tag content
+ */
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] === '#') {
+        const codePoint =
+          name[1].toLowerCase() === 'x'
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+/**
+ * Normalises whitespace, decodes entities and truncates a metadata value
+ */
+function cleanText(value: string | undefined, maxLength: number) {
+  const text = value && decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return undefined;
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Reads the attributes of one HTML tag into a lower-cased name/value map
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  for (const match of tag.matchAll(pattern)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+  }
+  return attributes;
+}
+
+/**
+ * Extracts Open Graph metadata from an HTML document, falling back to
+ * Twitter card tags, then to the <title> and description meta tags
+ * @param html The HTML document (only the <head> is needed)
+ * @param baseUrl The document URL, used to resolve a relative image URL
+ * @returns The metadata found, stamped with the current time
+ */
+export function parsePreviewMetadata(
+  html: string,
+  baseUrl: string
+): PreviewMetadata {
+  const meta: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1];
+
+  let image: string | undefined = meta['og:image'] || meta['twitter:image'];
+  if (image) {
+    try {
+      image = new URL(decodeEntities(image), baseUrl).href;
+    } catch {
+      image = undefined;
+    }
+  }
+
+  const metadata: PreviewMetadata = { fetchedAt: Date.now() };
+
+  const title = cleanText(
+    meta['og:title'] || meta['twitter:title'] || titleTag,
+    MAX_TITLE_LENGTH
+  );
+  if (title) {
+    metadata.title = title;
+  }
+
+  const description = cleanText(
+    meta['og:description'] ||
+      meta['twitter:description'] ||
+      meta['description'],
+    MAX_DESCRIPTION_LENGTH
+  );
+  if (description) {
+    metadata.description = description;
+  }
+
+  if (image && /^https?:/.test(image)) {
+    metadata.image = image;
+  }
+
+  const siteName = cleanText(meta['og:site_name'], MAX_TITLE_LENGTH);
+  if (siteName) {
+    metadata.siteName = siteName;
+  }
+
+  return metadata;
+}
+
+/**
+ * Fetches a destination page and extracts its preview metadata.
+ * Only the start of the document is read, up to the end of its <head>.
+ * @param url The destination URL
+ * @returns The metadata, empty (apart from fetchedAt) if the page could not
+ * be fetched or is not HTML
+ */
+export async function fetchPreviewMetadata(
+  url: string
+): Promise<PreviewMetadata> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        Accept: 'text/html,application/xhtml+xml',
+        'User-Agent': 'Mozilla/5.0 (compatible; UrlifyBot/1.0)',
+      },
+      signal: AbortSignal.timeout(PREVIEW_FETCH_TIMEOUT_MS),
+    });
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !response.body || !/html/i.test(contentType)) {
+      await response.body?.cancel();
+      return { fetchedAt: Date.now() };
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let html = '';
+    while (html.length < PREVIEW_MAX_HTML_LENGTH && !/<\/head>/i.test(html)) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      html += decoder.decode(value, { stream: true });
+    }
+    await reader.cancel();
+
+    return parsePreviewMetadata(html, response.url || url);
+  } catch (error) {
+    console.warn(`Error fetching preview metadata for ${url}:`, error);
+    return { fetchedAt: Date.now() };
+  }
+}
+
+/**
+ * Renders the page served to link-preview crawlers: Open Graph and Twitter
+ * card tags describing the destination, plus a plain link to it
+ * @param destination The destination URL
+ * @param metadata The destination's preview metadata
+ * @returns The HTML document
+ */
+export function renderPreviewPage(
+  destination: string,
+  metadata: PreviewMetadata
+): string {
+  const host = new URL(destination).hostname;
+  const title = metadata.title || host;
+  const tags: Array<[string, string, string | undefined]> = [
+    ['property', 'og:type', 'website'],
+    ['property', 'og:url', destination],
+    ['property', 'og:title', title],
+    ['property', 'og:description', metadata.description],
+    ['property', 'og:image', metadata.image],
+    ['property', 'og:site_name', metadata.siteName],
+    [
+      'name',
+      'twitter:card',
+      metadata.image ? 'summary_large_image' : 'summary',
+    ],
+    ['name', 'twitter:title', title],
+    ['name', 'twitter:description', metadata.description],
+    ['name', 'twitter:image', metadata.image],
+    ['name', 'description', metadata.description],
+  ];
+
+  const head = tags
+    .filter(([, , content]) => content)
+    .map(
+      ([attribute, key, content]) =>
+        `<meta ${attribute}="${key}" content="${escapeHtml(content!)}">`
+    )
+    .join('\n');
+
+  return renderPage(
+    title,
+    `<h1>${escapeHtml(title)}</h1>
+${metadata.description ? `<p>${escapeHtml(metadata.description)}</p>` : ''}
+<p><a href="${escapeHtml(destination)}">Continue to ${escapeHtml(host)}</a></p>`,
+    head
+  );
+}
@@ -0,0 +1,168 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { tooManyRequestsResponse } from './responseUtils';
+
+const dynamoDbClient = new DynamoDBClient({});
+
+// Optimistic writes retried when concurrent requests hit the same bucket
+const MAX_BUCKET_UPDATE_ATTEMPTS = 3;
+
+/**
+ * A token bucket holding `limit` tokens, refilled evenly over `windowSeconds`
+ */
+export interface RateLimitBucket {
+  /** Identifies the bucket, e.g. caller#alice or ip#203.0.113.7 */
+  key: string;
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitOptions {
+  /** Table holding the buckets: PK = RATELIMIT#{key}, SK = BUCKET */
+  tableName: string;
+  /** Buckets the request draws from, in order; none skips rate limiting */
+  buckets: (
+    event: APIGatewayProxyEvent
+  ) => RateLimitBucket[] | Promise<RateLimitBucket[]>;
+  /** Tokens the request takes from each bucket (default 1) */
+  cost?: (event: APIGatewayProxyEvent) => number;
+}
+
+/**
+ * Computes the tokens in a bucket after refilling it for the time elapsed
+ * since it was last written
+ * @param tokens Tokens left at the last write (negative after an oversized request)
+ * @param updatedAt Time of the last write (ms)
+ * @param bucket The bucket's limits
+ * @param now Current time (ms)
+ * @returns The available tokens, at most the bucket's limit
+ */
+export function refillTokens(
+  tokens: number,
+  updatedAt: number,
+  bucket: RateLimitBucket,
+  now: number
+): number {
+  const refilled =
+    ((now - updatedAt) / 1000) * (bucket.limit / bucket.windowSeconds);
+  return Math.min(bucket.limit, tokens + Math.max(refilled, 0));
+}
+
+/**
+ * Takes tokens from a bucket. Requests costing more than the bucket holds
+ * pass once it is full and leave it in debt, so they are not locked out.
+ * @returns 0 if the tokens were taken, otherwise the seconds until they will be available
+ */
+async function takeTokens(
+  tableName: string,
+  bucket: RateLimitBucket,
+  cost: number
+): Promise<number> {
+  const key = { PK: `RATELIMIT#${bucket.key}`, SK: 'BUCKET' };
+  const needed = Math.min(cost, bucket.limit);
+  const secondsPerToken = bucket.windowSeconds / bucket.limit;
+
+  for (let attempt = 0; attempt < MAX_BUCKET_UPDATE_ATTEMPTS; attempt++) {
+    const now = Date.now();
+    const result = await dynamoDbClient.send(
+      new GetItemCommand({
+        TableName: tableName,
+        Key: marshall(key),
+        ConsistentRead: true,
+      })
+    );
+    const stored = result.Item && unmarshall(result.Item);
+    const tokens = stored
+      ? refillTokens(stored.Tokens, stored.UpdatedAt, bucket, now)
+      : bucket.limit;
+
+    if (tokens < needed) {
+      return Math.ceil((needed - tokens) * secondsPerToken);
+    }
+
+    const remaining = tokens - cost;
+    try {
+      await dynamoDbClient.send(
+        new PutItemCommand({
+          TableName: tableName,
+          Item: marshall({
+            ...key,
+            Tokens: remaining,
+            UpdatedAt: now,
+            // A full bucket is the same as no item, so let DynamoDB delete it
+            TTL: Math.ceil(
+              now / 1000 + (bucket.limit - remaining) * secondsPerToken
+            ),
+            EntityType: 'RATELIMIT',
+          }),
+          // Fails if another request drew from the bucket since it was read
+          ConditionExpression: stored
+            ? 'UpdatedAt = :updatedAt'
+            : 'attribute_not_exists(PK)',
+          ExpressionAttributeValues: stored
+            ? marshall({ ':updatedAt': stored.UpdatedAt })
+            : undefined,
+        })
+      );
+      return 0;
+    } catch (error: any) {
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
+  }
+
+  // Still contended after every attempt: the bucket is being drained right now
+  return Math.max(1, Math.ceil(needed * secondsPerToken));
+}
+
+/**
+ * Higher-order function that wraps a Lambda handler with token-bucket rate
+ * limiting stored in DynamoDB. Requests over a bucket's limit get 429 with a
+ * Retry-After header; buckets are checked in order, so a request rejected by
+ * a later bucket still counts against the earlier ones.
+ *
+ * Compose it inside withCors so 429 responses carry CORS headers too:
+ * `withCors(withRateLimit(handler, options))`.
+ * If DynamoDB cannot be reached the request is let through rather than
+ * failing the API.
+ */
+export function withRateLimit(
+  handler: (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>,
+  options: RateLimitOptions
+): (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult> {
+  return async (
+    event: APIGatewayProxyEvent
+  ): Promise<APIGatewayProxyResult> => {
+    const buckets = await options.buckets(event);
+    const cost = options.cost ? options.cost(event) : 1;
+
+    if (cost > 0) {
+      for (const bucket of buckets) {
+        let retryAfter: number;
+        try {
+          retryAfter = await takeTokens(options.tableName, bucket, cost);
+        } catch (error) {
+          console.error(`Rate limit check failed for ${bucket.key}:`, error);
+          continue;
+        }
+
+        if (retryAfter > 0) {
+          return tooManyRequestsResponse('Rate limit exceeded', retryAfter, [
+            {
+              code: 'RATE_LIMITED',
+              detail: `Too many requests, retry in ${retryAfter} seconds`,
+            },
+          ]);
+        }
+      }
+    }
+
+    return handler(event);
+  };
+}
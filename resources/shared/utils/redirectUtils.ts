@@ -0,0 +1,125 @@
+import {
+  QUERY_MODES,
+  REDIRECT_TYPES,
+  UTM_FIELDS,
+  UTM_VALUE_MAX_LENGTH,
+} from '../constants/constants';
+import { QueryMode, UtmParams } from '../models/urlShortenerTypes';
+import { ErrorDetail } from './responseUtils';
+
+/**
+ * Validates a per-link redirect status code
+ * @param redirectType The requested status code
+ * @returns An error detail, or null if valid
+ */
+export function validateRedirectType(
+  redirectType: unknown
+): ErrorDetail | null {
+  if (!(REDIRECT_TYPES as readonly unknown[]).includes(redirectType)) {
+    return {
+      code: 'INVALID_REDIRECT_TYPE',
+      detail: `redirectType must be one of: ${REDIRECT_TYPES.join(', ')}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Validates a per-link query string mode
+ * @param queryMode The requested mode
+ * @returns An error detail, or null if valid
+ */
+export function validateQueryMode(queryMode: unknown): ErrorDetail | null {
+  if (!(QUERY_MODES as readonly unknown[]).includes(queryMode)) {
+    return {
+      code: 'INVALID_QUERY_MODE',
+      detail: `queryMode must be one of: ${QUERY_MODES.join(', ')}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Validates per-link UTM campaign settings: an object with at least one of
+ * source, medium, campaign, term and content, each a non-empty string
+ * @param utm The requested settings
+ * @returns An error detail, or null if valid
+ */
+export function validateUtm(utm: unknown): ErrorDetail | null {
+  if (!utm || typeof utm !== 'object' || Array.isArray(utm)) {
+    return {
+      code: 'INVALID_UTM',
+      detail: `utm must be an object with any of: ${UTM_FIELDS.join(', ')}`,
+    };
+  }
+
+  const entries = Object.entries(utm);
+  const unknownField = entries.find(
+    ([field]) => !(UTM_FIELDS as readonly string[]).includes(field)
+  );
+  if (unknownField || entries.length === 0) {
+    return {
+      code: 'INVALID_UTM',
+      detail: `utm must be an object with any of: ${UTM_FIELDS.join(', ')}`,
+    };
+  }
+
+  const invalidValue = entries.find(
+    ([, value]) =>
+      typeof value !== 'string' ||
+      !value.trim() ||
+      value.length > UTM_VALUE_MAX_LENGTH
+  );
+  if (invalidValue) {
+    return {
+      code: 'INVALID_UTM',
+      detail: `utm.${invalidValue[0]} must be a non-empty string of at most ${UTM_VALUE_MAX_LENGTH} characters`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Builds the URL a visitor is redirected to: the link's destination plus its
+ * UTM settings (unless the destination already sets them) plus, depending on
+ * the query mode, the query parameters the visitor sent to the short URL
+ * @param originalUrl The link's destination
+ * @param settings The link's query mode and UTM settings
+ * @param incoming The query parameters on the short URL
+ * @returns The destination URL
+ */
+export function buildDestinationUrl(
+  originalUrl: string,
+  settings: { queryMode?: QueryMode; utm?: UtmParams },
+  incoming: URLSearchParams
+): string {
+  const { queryMode = 'ignore', utm } = settings;
+  const passQuery = queryMode !== 'ignore' && [...incoming.keys()].length > 0;
+
+  if (!utm && !passQuery) {
+    return originalUrl;
+  }
+
+  const url = new URL(originalUrl);
+
+  for (const field of UTM_FIELDS) {
+    const value = utm?.[field];
+    if (value && !url.searchParams.has(`utm_${field}`)) {
+      url.searchParams.set(`utm_${field}`, value);
+    }
+  }
+
+  if (passQuery) {
+    if (queryMode === 'merge') {
+      for (const name of new Set(incoming.keys())) {
+        url.searchParams.delete(name);
+      }
+    }
+    for (const [name, value] of incoming) {
+      url.searchParams.append(name, value);
+    }
+  }
+
+  return url.toString();
+}
@@ -74,6 +74,26 @@ export const notFoundResponse = (
   message: string = 'Not Found'
 ): APIGatewayProxyResult => createResponse(404, message);
 
+export const conflictResponse = (
+  message: string = 'Conflict',
+  errors?: ErrorDetail[]
+): APIGatewayProxyResult => createResponse(409, message, undefined, errors);
+
+export const goneResponse = (message: string = 'Gone'): APIGatewayProxyResult =>
+  createResponse(410, message);
+
+export const tooManyRequestsResponse = (
+  message: string = 'Too Many Requests',
+  retryAfterSeconds: number,
+  errors?: ErrorDetail[]
+): APIGatewayProxyResult => {
+  const response = createResponse(429, message, undefined, errors);
+  return {
+    ...response,
+    headers: { ...response.headers, 'Retry-After': String(retryAfterSeconds) },
+  };
+};
+
 export const serverErrorResponse = (
   message: string = 'Internal Server Error',
   errors?: ErrorDetail[]
@@ -0,0 +1,103 @@
+import { randomInt } from 'crypto';
+import {
+  COLLISIONS_BEFORE_LENGTH_GROWTH,
+  CUSTOM_CODE_MAX_LENGTH,
+  CUSTOM_CODE_MIN_LENGTH,
+  CUSTOM_CODE_PATTERN,
+  MAX_SHORT_CODE_LENGTH,
+  RESERVED_SHORT_CODES,
+  SHORT_CODE_ALPHABETS,
+  SHORT_CODE_LENGTH,
+  ShortCodeAlphabet,
+} from '../constants/constants';
+import { ErrorDetail } from './responseUtils';
+
+/**
+ * Resolves an alphabet name (e.g. from an environment variable) to its
+ * characters, falling back to base62 for unknown names
+ * @param name The alphabet name
+ * @returns The alphabet characters
+ */
+export function resolveAlphabet(name?: string): string {
+  return name && name in SHORT_CODE_ALPHABETS
+    ? SHORT_CODE_ALPHABETS[name as ShortCodeAlphabet]
+    : SHORT_CODE_ALPHABETS.base62;
+}
+
+/**
+ * Generates a random short code of exactly the requested length.
+ * Every character is drawn uniformly from the alphabet with crypto.randomInt,
+ * so there is no modulo bias and nothing gets stripped afterwards.
+ * @param length Number of characters to generate
+ * @param alphabet Characters to draw from
+ * @returns The generated short code
+ */
+export function generateShortCode(
+  length: number = SHORT_CODE_LENGTH,
+  alphabet: string = SHORT_CODE_ALPHABETS.base62
+): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += alphabet[randomInt(alphabet.length)];
+  }
+  return code;
+}
+
+/**
+ * Returns the code length to use for a given generation attempt. The length
+ * grows by one character every COLLISIONS_BEFORE_LENGTH_GROWTH collisions,
+ * capped at MAX_SHORT_CODE_LENGTH.
+ * @param attempt Zero-based attempt number
+ * @param baseLength Length used for the first attempt
+ * @returns The code length for this attempt
+ */
+export function shortCodeLengthForAttempt(
+  attempt: number,
+  baseLength: number = SHORT_CODE_LENGTH
+): number {
+  return Math.min(
+    baseLength + Math.floor(attempt / COLLISIONS_BEFORE_LENGTH_GROWTH),
+    MAX_SHORT_CODE_LENGTH
+  );
+}
+
+/**
+ * Validates a user-supplied custom short code (vanity alias)
+ * @param customCode The requested short code
+ * @returns An error detail describing the first failed rule, or null if valid
+ */
+export function validateCustomCode(customCode: unknown): ErrorDetail | null {
+  if (typeof customCode !== 'string') {
+    return {
+      code: 'INVALID_CUSTOM_CODE',
+      detail: 'customCode must be a string',
+    };
+  }
+
+  if (
+    customCode.length < CUSTOM_CODE_MIN_LENGTH ||
+    customCode.length > CUSTOM_CODE_MAX_LENGTH
+  ) {
+    return {
+      code: 'INVALID_CUSTOM_CODE_LENGTH',
+      detail: `customCode must be between ${CUSTOM_CODE_MIN_LENGTH} and ${CUSTOM_CODE_MAX_LENGTH} characters`,
+    };
+  }
+
+  if (!CUSTOM_CODE_PATTERN.test(customCode)) {
+    return {
+      code: 'INVALID_CUSTOM_CODE_CHARACTERS',
+      detail:
+        'customCode may only contain letters, digits, hyphens and underscores',
+    };
+  }
+
+  if (RESERVED_SHORT_CODES.includes(customCode.toLowerCase())) {
+    return {
+      code: 'RESERVED_CUSTOM_CODE',
+      detail: `customCode "${customCode}" is reserved`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,230 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import {
+  MAX_TARGETING_RULES,
+  TARGET_OPERATING_SYSTEMS,
+} from '../constants/constants';
+import { TargetingRule, TargetOs } from '../models/urlShortenerTypes';
+import { extractCountry } from './clickUtils';
+import { getHeader } from './httpUtils';
+import { ErrorDetail } from './responseUtils';
+import { UrlPolicy, validateDestinationUrl } from './urlPolicy';
+
+const COUNTRY_PATTERN = /^[A-Za-z]{2}$/;
+const LANGUAGE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/;
+
+/**
+ * The viewer attributes targeting rules can match on
+ */
+export interface ViewerContext {
+  os: TargetOs;
+  country?: string;
+  language?: string;
+}
+
+/**
+ * Reads the viewer's OS, country and preferred language from the headers
+ * CloudFront forwards (CloudFront-Is-IOS-Viewer, CloudFront-Is-Android-Viewer,
+ * CloudFront-Viewer-Country, Accept-Language). Without CloudFront the OS is
+ * guessed from the User-Agent.
+ * @param event API Gateway event
+ * @returns The viewer context
+ */
+export function getViewerContext(event: APIGatewayProxyEvent): ViewerContext {
+  let os: TargetOs = 'other';
+  if (getHeader(event.headers, 'CloudFront-Is-IOS-Viewer') === 'true') {
+    os = 'ios';
+  } else if (
+    getHeader(event.headers, 'CloudFront-Is-Android-Viewer') === 'true'
+  ) {
+    os = 'android';
+  } else if (
+    getHeader(event.headers, 'CloudFront-Is-IOS-Viewer') === undefined
+  ) {
+    const userAgent = getHeader(event.headers, 'User-Agent') || '';
+    if (/iphone|ipad|ipod/i.test(userAgent)) {
+      os = 'ios';
+    } else if (/android/i.test(userAgent)) {
+      os = 'android';
+    }
+  }
+
+  return {
+    os,
+    country: extractCountry(event),
+    language: preferredLanguage(getHeader(event.headers, 'Accept-Language')),
+  };
+}
+
+/**
+ * Picks the highest-weighted language tag from an Accept-Language header
+ * @param acceptLanguage The Accept-Language header value
+ * @returns The lower-cased language tag, or undefined if none is usable
+ */
+export function preferredLanguage(acceptLanguage?: string): string | undefined {
+  let best: { tag: string; q: number } | undefined;
+
+  for (const part of (acceptLanguage || '').split(',')) {
+    const [tag, ...params] = part.trim().split(';');
+    const qParam = params.find((param) => param.trim().startsWith('q='));
+    const q = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+    if (LANGUAGE_PATTERN.test(tag) && q > 0 && (!best || q > best.q)) {
+      best = { tag: tag.toLowerCase(), q };
+    }
+  }
+
+  return best?.tag;
+}
+
+/**
+ * Finds the first rule matching the viewer
+ * @param rules The link's targeting rules, in order
+ * @param viewer The viewer context
+ * @returns The matching rule, or undefined to use the link's OriginalUrl
+ */
+export function matchTargetingRule(
+  rules: TargetingRule[] | undefined,
+  viewer: ViewerContext
+): TargetingRule | undefined {
+  return rules?.find(
+    (rule) =>
+      (!rule.os || rule.os.includes(viewer.os)) &&
+      (!rule.countries ||
+        (!!viewer.country && rule.countries.includes(viewer.country))) &&
+      (!rule.languages ||
+        (!!viewer.language &&
+          rule.languages.some(
+            (language) =>
+              viewer.language === language ||
+              viewer.language!.startsWith(`${language}-`)
+          )))
+  );
+}
+
+/**
+ * Checks that a rule condition is a non-empty array of strings matching a test
+ */
+function isConditionList(
+  value: unknown,
+  test: (item: string) => boolean
+): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => typeof item === 'string' && test(item))
+  );
+}
+
+/**
+ * Validates a list of targeting rules. Each rule needs a destination that
+ * passes the URL policy and at least one of os, countries and languages.
+ * @param rules The requested rules
+ * @param policy The URL policy applied to rule destinations
+ * @returns An error detail describing the first failed rule, or null if valid
+ */
+export function validateTargetingRules(
+  rules: unknown,
+  policy: UrlPolicy
+): ErrorDetail | null {
+  if (!Array.isArray(rules) || rules.length > MAX_TARGETING_RULES) {
+    return {
+      code: 'INVALID_TARGETING',
+      detail: `targeting must be an array of at most ${MAX_TARGETING_RULES} rules`,
+    };
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    if (!rule || typeof rule !== 'object') {
+      return {
+        code: 'INVALID_TARGETING',
+        detail: `targeting[${index}] must be an object`,
+      };
+    }
+
+    const { destination, os, countries, languages, ...rest } = rule;
+
+    const unknownField = Object.keys(rest)[0];
+    if (unknownField) {
+      return {
+        code: 'INVALID_TARGETING',
+        detail: `targeting[${index}] has an unknown field "${unknownField}"`,
+      };
+    }
+
+    if (
+      os === undefined &&
+      countries === undefined &&
+      languages === undefined
+    ) {
+      return {
+        code: 'INVALID_TARGETING',
+        detail: `targeting[${index}] needs at least one of os, countries, languages`,
+      };
+    }
+
+    if (
+      os !== undefined &&
+      !isConditionList(os, (item) =>
+        (TARGET_OPERATING_SYSTEMS as readonly string[]).includes(item)
+      )
+    ) {
+      return {
+        code: 'INVALID_TARGETING',
+        detail: `targeting[${index}].os must list any of: ${TARGET_OPERATING_SYSTEMS.join(', ')}`,
+      };
+    }
+
+    if (
+      countries !== undefined &&
+      !isConditionList(countries, (item) => COUNTRY_PATTERN.test(item))
+    ) {
+      return {
+        code: 'INVALID_TARGETING',
+        detail: `targeting[${index}].countries must list two-letter country codes`,
+      };
+    }
+
+    if (
+      languages !== undefined &&
+      !isConditionList(languages, (item) => LANGUAGE_PATTERN.test(item))
+    ) {
+      return {
+        code: 'INVALID_TARGETING',
+        detail: `targeting[${index}].languages must list language tags such as "en" or "pt-BR"`,
+      };
+    }
+
+    const destinationError =
+      typeof destination === 'string'
+        ? validateDestinationUrl(destination, policy)
+        : { code: 'INVALID_URL', detail: 'Please provide a valid URL' };
+    if (destinationError) {
+      return {
+        ...destinationError,
+        detail: `targeting[${index}].destination: ${destinationError.detail}`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Normalises validated rules for storage: upper-case countries, lower-case
+ * languages and no empty conditions
+ * @param rules Rules that passed validateTargetingRules
+ * @returns The rules to store
+ */
+export function normalizeTargetingRules(
+  rules: TargetingRule[]
+): TargetingRule[] {
+  return rules.map(({ destination, os, countries, languages }) => ({
+    destination,
+    ...(os ? { os } : {}),
+    ...(countries
+      ? { countries: countries.map((country) => country.toUpperCase()) }
+      : {}),
+    ...(languages
+      ? { languages: languages.map((language) => language.toLowerCase()) }
+      : {}),
+  }));
+}
@@ -0,0 +1,311 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import {
+  ALLOWED_URL_PROTOCOLS,
+  DESTINATION_CHECK_TIMEOUT_MS,
+  MAX_DESTINATION_REDIRECTS,
+} from '../constants/constants';
+import { ErrorDetail } from './responseUtils';
+
+/**
+ * Rules a short link destination must satisfy
+ */
+export interface UrlPolicy {
+  /** Domains destinations must belong to; empty allows any domain */
+  allowedDomains: string[];
+  /** Domains destinations must not belong to */
+  deniedDomains: string[];
+  /** Domains served by the shortener itself, which would create loops */
+  selfDomains: string[];
+  /** Longest redirect chain a destination may start */
+  maxRedirects: number;
+}
+
+// Host names that only resolve inside private networks
+const INTERNAL_HOST_PATTERN = /(^|\.)(localhost|local|internal)$/;
+
+/**
+ * Splits a comma-separated list of domains into normalised entries
+ */
+function parseDomainList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map((domain) =>
+      domain
+        .trim()
+        .toLowerCase()
+        .replace(/^\*?\./, '')
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Builds the URL policy from environment variables:
+ * URL_ALLOWED_DOMAINS, URL_DENIED_DOMAINS (comma-separated),
+ * URL_MAX_REDIRECTS and BASE_URL (whose host counts as a self domain)
+ * @param env The environment to read
+ * @returns The URL policy
+ */
+export function loadUrlPolicy(env = process.env): UrlPolicy {
+  const selfDomains: string[] = [];
+  if (env.BASE_URL) {
+    try {
+      selfDomains.push(new URL(env.BASE_URL).hostname.toLowerCase());
+    } catch {
+      console.warn(`Ignoring invalid BASE_URL: ${env.BASE_URL}`);
+    }
+  }
+
+  const maxRedirects = parseInt(env.URL_MAX_REDIRECTS || '');
+
+  return {
+    allowedDomains: parseDomainList(env.URL_ALLOWED_DOMAINS),
+    deniedDomains: parseDomainList(env.URL_DENIED_DOMAINS),
+    selfDomains,
+    maxRedirects: Number.isNaN(maxRedirects)
+      ? MAX_DESTINATION_REDIRECTS
+      : maxRedirects,
+  };
+}
+
+/**
+ * Checks whether a host name is a domain or one of its subdomains
+ */
+function matchesDomain(host: string, domains: string[]): boolean {
+  return domains.some(
+    (domain) => host === domain || host.endsWith(`.${domain}`)
+  );
+}
+
+/**
+ * Checks whether an IP address is loopback, private, link-local, shared,
+ * reserved or multicast rather than a public internet address
+ * @param address An IPv4 or IPv6 address
+ * @returns True if the address is not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+
+  if (isIP(ip) === 6) {
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) {
+      return isPrivateAddress(mapped[1]);
+    }
+    // new URL() normalises IPv4-mapped addresses to hex, e.g. ::ffff:a00:1
+    const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = mappedHex.slice(1).map((part) => parseInt(part, 16));
+      return isPrivateAddress(
+        [high >> 8, high & 255, low >> 8, low & 255].join('.')
+      );
+    }
+    return (
+      ip === '::' ||
+      ip === '::1' ||
+      /^f[cd]/.test(ip) || // fc00::/7 unique local
+      /^fe[89ab]/.test(ip) || // fe80::/10 link-local
+      /^ff/.test(ip) // ff00::/8 multicast
+    );
+  }
+
+  const [a, b] = ip.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+}
+
+/**
+ * Validates a destination URL against the policy without any network access:
+ * scheme, domain allow/deny lists, self-references and private IP literals
+ * @param url The destination URL
+ * @param policy The URL policy
+ * @returns An error detail describing the first failed rule, or null if valid
+ */
+export function validateDestinationUrl(
+  url: string,
+  policy: UrlPolicy
+): ErrorDetail | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { code: 'INVALID_URL', detail: 'Please provide a valid URL' };
+  }
+
+  if (!ALLOWED_URL_PROTOCOLS.includes(parsed.protocol)) {
+    return {
+      code: 'UNSUPPORTED_URL_SCHEME',
+      detail: `URL scheme "${parsed.protocol.replace(/:$/, '')}" is not allowed, use http or https`,
+    };
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (isIP(host)) {
+    if (isPrivateAddress(host)) {
+      return {
+        code: 'PRIVATE_ADDRESS',
+        detail: 'URLs must not point at private or internal addresses',
+      };
+    }
+  } else if (INTERNAL_HOST_PATTERN.test(host)) {
+    return {
+      code: 'PRIVATE_ADDRESS',
+      detail: `"${host}" is an internal host name`,
+    };
+  }
+
+  if (matchesDomain(host, policy.selfDomains)) {
+    return {
+      code: 'SELF_REFERENCING_URL',
+      detail: 'URLs must not point at the URL shortener itself',
+    };
+  }
+
+  if (matchesDomain(host, policy.deniedDomains)) {
+    return {
+      code: 'DOMAIN_DENIED',
+      detail: `The domain "${host}" is not allowed`,
+    };
+  }
+
+  if (
+    policy.allowedDomains.length > 0 &&
+    !matchesDomain(host, policy.allowedDomains)
+  ) {
+    return {
+      code: 'DOMAIN_NOT_ALLOWED',
+      detail: `The domain "${host}" is not on the allowlist`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Checks that a host name does not resolve to a private address
+ */
+async function checkResolvedHost(host: string): Promise<ErrorDetail | null> {
+  if (isIP(host)) {
+    return null;
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    // Unresolvable hosts are not a safety problem, the link just won't work
+    return null;
+  }
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return {
+      code: 'PRIVATE_ADDRESS',
+      detail: `"${host}" resolves to a private or internal address`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Checks a destination that already passed validateDestinationUrl over the
+ * network: its host must not resolve to a private address and, unless
+ * followRedirects is false, its redirect chain must stay within the policy
+ * (no loops, no hops back to the shortener, at most maxRedirects hops).
+ * Unreachable destinations are accepted, since they may come online later,
+ * and so are chains still being followed at the deadline.
+ * @param url The destination URL
+ * @param policy The URL policy
+ * @param options.followRedirects Whether to follow the redirect chain
+ * @param options.deadline Epoch ms after which no further hop is requested
+ * @returns An error detail describing the first failed rule, or null if valid
+ */
+export async function inspectDestinationUrl(
+  url: string,
+  policy: UrlPolicy,
+  {
+    followRedirects = true,
+    deadline = Infinity,
+  }: { followRedirects?: boolean; deadline?: number } = {}
+): Promise<ErrorDetail | null> {
+  let current = new URL(url);
+  const visited = new Set([current.href]);
+
+  for (let hop = 0; ; hop++) {
+    const hostError = await checkResolvedHost(
+      current.hostname.replace(/^\[|\]$/g, '')
+    );
+    if (hostError) {
+      return hostError;
+    }
+
+    const timeLeft = deadline - Date.now();
+    if (!followRedirects || timeLeft <= 0) {
+      return null;
+    }
+
+    let location: string | null;
+    try {
+      const response = await fetch(current.href, {
+        method: 'HEAD',
+        redirect: 'manual',
+        signal: AbortSignal.timeout(
+          Math.min(DESTINATION_CHECK_TIMEOUT_MS, timeLeft)
+        ),
+      });
+      location =
+        response.status >= 300 && response.status < 400
+          ? response.headers.get('location')
+          : null;
+    } catch {
+      return null;
+    }
+
+    if (!location) {
+      return null;
+    }
+
+    if (hop >= policy.maxRedirects) {
+      return {
+        code: 'REDIRECT_CHAIN_TOO_LONG',
+        detail: `The URL redirects more than ${policy.maxRedirects} times`,
+      };
+    }
+
+    let next: URL;
+    try {
+      next = new URL(location, current);
+    } catch {
+      return null;
+    }
+
+    if (visited.has(next.href)) {
+      return {
+        code: 'REDIRECT_LOOP',
+        detail: 'The URL redirects back to itself',
+      };
+    }
+
+    const hopError = validateDestinationUrl(next.href, policy);
+    if (hopError) {
+      return hopError.code === 'SELF_REFERENCING_URL'
+        ? {
+            code: 'REDIRECT_LOOP',
+            detail: 'The URL redirects back to the URL shortener',
+          }
+        : { ...hopError, detail: `Redirect target: ${hopError.detail}` };
+    }
+
+    visited.add(next.href);
+    current = next;
+  }
+}
@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import {
+  MAX_VARIANTS,
+  MAX_VARIANT_WEIGHT,
+  MIN_VARIANTS,
+} from '../constants/constants';
+import { Variant } from '../models/urlShortenerTypes';
+import { ErrorDetail } from './responseUtils';
+import { UrlPolicy, validateDestinationUrl } from './urlPolicy';
+
+const VARIANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * Validates A/B split variants: MIN_VARIANTS to MAX_VARIANTS objects with a
+ * destination that passes the URL policy, a positive integer weight and an
+ * optional unique ID
+ * @param variants The requested variants
+ * @param policy The URL policy applied to variant destinations
+ * @returns An error detail describing the first failed rule, or null if valid
+ */
+export function validateVariants(
+  variants: unknown,
+  policy: UrlPolicy
+): ErrorDetail | null {
+  if (
+    !Array.isArray(variants) ||
+    variants.length < MIN_VARIANTS ||
+    variants.length > MAX_VARIANTS
+  ) {
+    return {
+      code: 'INVALID_VARIANTS',
+      detail: `variants must be an array of ${MIN_VARIANTS} to ${MAX_VARIANTS} variants`,
+    };
+  }
+
+  const ids = new Set<string>();
+
+  for (const [index, variant] of variants.entries()) {
+    if (!variant || typeof variant !== 'object') {
+      return {
+        code: 'INVALID_VARIANTS',
+        detail: `variants[${index}] must be an object`,
+      };
+    }
+
+    const { id, destination, weight } = variant;
+
+    if (id !== undefined) {
+      if (typeof id !== 'string' || !VARIANT_ID_PATTERN.test(id)) {
+        return {
+          code: 'INVALID_VARIANTS',
+          detail: `variants[${index}].id must be 1-32 letters, digits, hyphens or underscores`,
+        };
+      }
+      if (ids.has(id)) {
+        return {
+          code: 'INVALID_VARIANTS',
+          detail: `variants[${index}].id "${id}" is used more than once`,
+        };
+      }
+      ids.add(id);
+    }
+
+    if (
+      !Number.isInteger(weight) ||
+      weight < 1 ||
+      weight > MAX_VARIANT_WEIGHT
+    ) {
+      return {
+        code: 'INVALID_VARIANTS',
+        detail: `variants[${index}].weight must be an integer between 1 and ${MAX_VARIANT_WEIGHT}`,
+      };
+    }
+
+    const destinationError =
+      typeof destination === 'string'
+        ? validateDestinationUrl(destination, policy)
+        : { code: 'INVALID_URL', detail: 'Please provide a valid URL' };
+    if (destinationError) {
+      return {
+        ...destinationError,
+        detail: `variants[${index}].destination: ${destinationError.detail}`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Normalises validated variants for storage, giving variants without an ID
+ * the next free letter (a, b, c, ...)
+ * @param variants Variants that passed validateVariants
+ * @returns The variants to store
+ */
+export function normalizeVariants(variants: Variant[]): Variant[] {
+  const used = new Set(variants.map((variant) => variant.id).filter(Boolean));
+  let next = 0;
+
+  return variants.map(({ id, destination, weight }) => {
+    if (!id) {
+      while (used.has(String.fromCharCode(97 + next))) {
+        next++;
+      }
+      id = String.fromCharCode(97 + next);
+      used.add(id);
+    }
+    return { id, destination, weight };
+  });
+}
+
+/**
+ * Picks a variant by weight. The pick is derived from a hash of the seed, so
+ * a visitor with the same seed (e.g. IP address and User-Agent) gets the same
+ * variant every time.
+ * @param variants The link's variants
+ * @param seed Stable visitor attributes
+ * @returns The chosen variant
+ */
+export function pickVariant(variants: Variant[], seed: string): Variant {
+  const totalWeight = variants.reduce(
+    (sum, variant) => sum + variant.weight,
+    0
+  );
+  let bucket =
+    createHash('sha256').update(seed).digest().readUInt32BE(0) % totalWeight;
+
+  for (const variant of variants) {
+    if (bucket < variant.weight) {
+      return variant;
+    }
+    bucket -= variant.weight;
+  }
+
+  return variants[variants.length - 1];
+}
+
+/**
+ * Name of the cookie that pins a visitor to a link's variant
+ * @param shortCode The short code
+ * @returns The cookie name
+ */
+export function variantCookieName(shortCode: string): string {
+  return `urlify_v_${shortCode}`;
+}
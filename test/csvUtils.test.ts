@@ -0,0 +1,60 @@
+import {
+  parseCsv,
+  parseCsvRecords,
+  toCsv,
+} from '../resources/shared/utils/csvUtils';
+
+describe('toCsv', () => {
+  test('writes a header row and CRLF-terminated records', () => {
+    expect(toCsv(['a', 'b'], [{ a: 1, b: 'x' }])).toBe('a,b\r\n1,x\r\n');
+  });
+
+  test('leaves null and undefined fields empty', () => {
+    expect(toCsv(['a', 'b'], [{ a: null }])).toBe('a,b\r\n,\r\n');
+  });
+
+  test('prefixes values a spreadsheet would run as formulas', () => {
+    expect(toCsv(['a'], [{ a: '=1+1' }, { a: '-2' }, { a: "'@x" }])).toBe(
+      "a\r\n'=1+1\r\n'-2\r\n''@x\r\n"
+    );
+  });
+
+  test('quotes fields with delimiters, quotes and line breaks', () => {
+    expect(toCsv(['a'], [{ a: 'x,"y"\nz' }])).toBe('a\r\n"x,""y""\nz"\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  test('parses quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('a,b\r\n"x,""y""\nz",2\n')).toEqual([
+      ['a', 'b'],
+      ['x,"y"\nz', '2'],
+    ]);
+  });
+
+  test('skips a byte order mark and blank lines', () => {
+    expect(parseCsv('﻿a\n\n1\n')).toEqual([['a'], ['1']]);
+  });
+
+  test('rejects an unclosed quoted field', () => {
+    expect(parseCsv('a\n"x')).toBeNull();
+  });
+
+  test('round-trips toCsv output', () => {
+    const rows = [
+      { a: 'x,"y"\r\nz', b: '' },
+      { a: '=HYPERLINK("https://example.com")', b: "''+1" },
+    ];
+    expect(parseCsvRecords(toCsv(['a', 'b'], rows))).toEqual(rows);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  test('keys fields by trimmed column name and fills missing ones', () => {
+    expect(parseCsvRecords(' a , b\n1\n')).toEqual([{ a: '1', b: '' }]);
+  });
+
+  test('returns no records for empty input', () => {
+    expect(parseCsvRecords('')).toEqual([]);
+  });
+});
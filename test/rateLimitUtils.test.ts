@@ -0,0 +1,22 @@
+import { refillTokens } from '../resources/shared/utils/rateLimitUtils';
+
+const bucket = { key: 'caller#alice', limit: 100, windowSeconds: 3600 };
+
+describe('refillTokens', () => {
+  test('refills evenly over the window', () => {
+    expect(refillTokens(0, 0, bucket, 36_000)).toBeCloseTo(1);
+    expect(refillTokens(10, 0, bucket, 1_800_000)).toBeCloseTo(60);
+  });
+
+  test('never goes above the limit', () => {
+    expect(refillTokens(90, 0, bucket, 3_600_000)).toBe(100);
+  });
+
+  test('pays back debt left by an oversized request', () => {
+    expect(refillTokens(-50, 0, bucket, 1_800_000)).toBeCloseTo(0);
+  });
+
+  test('ignores a last write in the future', () => {
+    expect(refillTokens(5, 10_000, bucket, 0)).toBe(5);
+  });
+});
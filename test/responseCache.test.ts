@@ -0,0 +1,60 @@
+import { ResponseCache } from '../resources/shared/services/responseCache';
+
+describe('ResponseCache without a table', () => {
+  test('serves stored responses from memory', async () => {
+    const cache = new ResponseCache();
+    await cache.set('issue', { key: 'TS-1' }, 60);
+
+    await expect(cache.get('issue')).resolves.toEqual({
+      data: { key: 'TS-1' },
+      source: 'memory',
+    });
+  });
+
+  test('does not serve expired responses', async () => {
+    const cache = new ResponseCache();
+    await cache.set('issue', { key: 'TS-1' }, 0);
+
+    await expect(cache.get('issue')).resolves.toBeUndefined();
+  });
+
+  test('drops the entries of an invalidated tag only', async () => {
+    const cache = new ResponseCache();
+    const storedAt = Date.now() - 1000;
+    await cache.set('TS-1', { key: 'TS-1' }, 60, ['issue:TS-1'], storedAt);
+    await cache.set('TS-2', { key: 'TS-2' }, 60, ['issue:TS-2'], storedAt);
+
+    await cache.invalidate(['issue:TS-1']);
+
+    await expect(cache.get('TS-1')).resolves.toBeUndefined();
+    await expect(cache.get('TS-2')).resolves.toMatchObject({
+      data: { key: 'TS-2' },
+    });
+  });
+
+  test('applies invalidations made while the response was in flight', async () => {
+    const cache = new ResponseCache();
+    const requestedAt = Date.now() - 1000;
+
+    await cache.invalidate(['issue:TS-1']);
+    await cache.set('TS-1', { key: 'TS-1' }, 60, ['issue:TS-1'], requestedAt);
+
+    await expect(cache.get('TS-1')).resolves.toBeUndefined();
+  });
+
+  test('keeps responses stored after the invalidation', async () => {
+    const cache = new ResponseCache();
+    await cache.invalidate(['issue:TS-1']);
+    await cache.set(
+      'TS-1',
+      { key: 'TS-1' },
+      60,
+      ['issue:TS-1'],
+      Date.now() + 1
+    );
+
+    await expect(cache.get('TS-1')).resolves.toMatchObject({
+      data: { key: 'TS-1' },
+    });
+  });
+});
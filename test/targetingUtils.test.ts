@@ -0,0 +1,53 @@
+import {
+  matchTargetingRule,
+  preferredLanguage,
+} from '../resources/shared/utils/targetingUtils';
+import { TargetingRule } from '../resources/shared/models/urlShortenerTypes';
+
+const rules: TargetingRule[] = [
+  { destination: 'https://example.com/ios-vn', os: ['ios'], countries: ['VN'] },
+  { destination: 'https://example.com/en', languages: ['en'] },
+  { destination: 'https://example.com/android', os: ['android'] },
+];
+
+describe('matchTargetingRule', () => {
+  test('requires every condition of a rule to match', () => {
+    expect(
+      matchTargetingRule(rules, { os: 'ios', country: 'VN' })?.destination
+    ).toBe('https://example.com/ios-vn');
+    expect(matchTargetingRule(rules, { os: 'ios', country: 'US' })).toBe(
+      undefined
+    );
+  });
+
+  test('returns the first matching rule', () => {
+    expect(
+      matchTargetingRule(rules, { os: 'android', language: 'en' })?.destination
+    ).toBe('https://example.com/en');
+  });
+
+  test('matches a language against its regional variants', () => {
+    expect(
+      matchTargetingRule(rules, { os: 'other', language: 'en-gb' })?.destination
+    ).toBe('https://example.com/en');
+    expect(matchTargetingRule(rules, { os: 'other', language: 'eng' })).toBe(
+      undefined
+    );
+  });
+
+  test('does not match country or language rules for unknown viewers', () => {
+    expect(matchTargetingRule(rules, { os: 'other' })).toBe(undefined);
+    expect(matchTargetingRule(undefined, { os: 'ios' })).toBe(undefined);
+  });
+});
+
+describe('preferredLanguage', () => {
+  test('picks the tag with the highest quality value', () => {
+    expect(preferredLanguage('fr;q=0.5, en-GB, de;q=0.8')).toBe('en-gb');
+  });
+
+  test('skips invalid tags, wildcards and q=0', () => {
+    expect(preferredLanguage('*, vi;q=0, fr;q=0.2')).toBe('fr');
+    expect(preferredLanguage(undefined)).toBe(undefined);
+  });
+});
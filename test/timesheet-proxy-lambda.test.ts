@@ -0,0 +1,141 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import axios from 'axios';
+
+process.env.JIRA_INSTANCES = JSON.stringify({
+  jiradc: {
+    baseUrl: 'https://jira.example.com/jiradc',
+    apiFlavour: 'server',
+    headerProfile: 'api',
+  },
+});
+
+// Required after the environment it reads at module init
+const { handler } =
+  require('../resources/lambda/timesheet-proxy-lambda/index') as typeof import('../resources/lambda/timesheet-proxy-lambda/index');
+
+const TEMPO = 'https://jira.example.com/jiradc/rest/tempo/1.0';
+
+let send: jest.SpyInstance;
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  send = jest.spyOn(axios, 'request');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function entry(issueKey: string) {
+  return {
+    issueKey,
+    username: 'alice',
+    startDate: '2026-05-04',
+    timeSpentSeconds: 3600,
+  };
+}
+
+function logWorkBatch(body: unknown): APIGatewayProxyEvent {
+  return {
+    httpMethod: 'POST',
+    resource: '/timesheet/logwork/batch',
+    path: '/timesheet/logwork/batch',
+    headers: { Authorization: 'Bearer test-token' },
+    multiValueHeaders: {},
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    pathParameters: null,
+    stageVariables: null,
+    body: JSON.stringify(body),
+    isBase64Encoded: false,
+    requestContext: {} as APIGatewayProxyEvent['requestContext'],
+  };
+}
+
+/**
+ * Answers creates with a new worklog, except for the given issues
+ */
+function tempo(
+  failing: string[] = [],
+  created = (index: number): object => ({
+    id: 11 + index,
+    issueId: 101 + index,
+  })
+) {
+  let creates = 0;
+  send.mockImplementation(async ({ method, data }) => {
+    if (method === 'POST' && failing.includes(data.issueKey)) {
+      throw Object.assign(new Error('Request failed with status code 400'), {
+        response: { status: 400, headers: {}, data: 'Issue is closed' },
+      });
+    }
+    return { status: 200, data: method === 'POST' ? created(creates++) : '' };
+  });
+}
+
+function requests(method: string) {
+  return send.mock.calls
+    .map(([request]) => request)
+    .filter((request) => request.method === method);
+}
+
+describe('POST /timesheet/logwork/batch', () => {
+  test('rolls an atomic batch back when an entry fails', async () => {
+    tempo(['TS-2']);
+
+    const response = await handler(
+      logWorkBatch({ entries: [entry('TS-1'), entry('TS-2')], atomic: true })
+    );
+
+    expect(response.statusCode).toBe(200);
+    const { data } = JSON.parse(response.body);
+    expect(data).toMatchObject({
+      committed: false,
+      rolledBack: 1,
+      rollbackFailed: 0,
+    });
+    expect(data.results.map((result: any) => result.status)).toEqual([
+      'rolled-back',
+      'failed',
+    ]);
+    expect(data.results[1]).toMatchObject({
+      statusCode: 400,
+      error: 'Issue is closed',
+    });
+    expect(requests('DELETE').map((request) => request.url)).toEqual([
+      `${TEMPO}/project-worklogs/101/11`,
+    ]);
+  });
+
+  test('stops an atomic batch whose worklog ids are missing', async () => {
+    tempo([], () => ({ ok: true }));
+
+    const response = await handler(
+      logWorkBatch({ entries: [entry('TS-1'), entry('TS-2')], atomic: true })
+    );
+
+    const { data } = JSON.parse(response.body);
+    expect(data.committed).toBe(false);
+    expect(data.results.map((result: any) => result.status)).toEqual([
+      'rollback-failed',
+      'skipped',
+    ]);
+    // Only the first entry was created, and it cannot be deleted
+    expect(requests('POST')).toHaveLength(1);
+    expect(requests('DELETE')).toHaveLength(0);
+  });
+
+  test('keeps the created entries of a non-atomic batch', async () => {
+    tempo(['TS-2']);
+
+    const response = await handler(
+      logWorkBatch({ entries: [entry('TS-1'), entry('TS-2'), entry('TS-3')] })
+    );
+
+    const { data } = JSON.parse(response.body);
+    expect(data).toMatchObject({ created: 2, failed: 1 });
+    expect(data).not.toHaveProperty('committed');
+    expect(requests('DELETE')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,177 @@
+import axios from 'axios';
+import {
+  UpstreamClient,
+  UpstreamError,
+} from '../resources/shared/services/upstreamClient';
+
+let send: jest.SpyInstance;
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  send = jest.spyOn(axios, 'request');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/**
+ * A client that retries without waiting
+ */
+function client(options = {}) {
+  return new UpstreamClient('Jira', {
+    baseDelayMs: 1,
+    maxDelayMs: 5,
+    ...options,
+  });
+}
+
+/**
+ * An axios error for a response with the given status
+ */
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    response: { status, headers, data: { message: `status ${status}` } },
+  });
+}
+
+const ok = { status: 200, data: { ok: true } };
+
+describe('UpstreamClient retries', () => {
+  test('retries a GET after a server error', async () => {
+    send.mockRejectedValueOnce(httpError(502)).mockResolvedValueOnce(ok);
+
+    await expect(
+      client().request({ method: 'GET', url: 'https://jira/issue' })
+    ).resolves.toEqual(ok);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not repeat a POST after a server error', async () => {
+    send.mockRejectedValue(httpError(500));
+
+    await expect(
+      client().request({ method: 'POST', url: 'https://jira/worklog' })
+    ).rejects.toMatchObject({ statusCode: 502 });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  test('repeats a throttled POST', async () => {
+    send.mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce(ok);
+
+    await expect(
+      client().request({ method: 'POST', url: 'https://jira/worklog' })
+    ).resolves.toEqual(ok);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  test('passes a long Retry-After on to the caller', async () => {
+    send.mockRejectedValue(httpError(429, { 'retry-after': '12' }));
+
+    const error = await client()
+      .request({ method: 'GET', url: 'https://jira/issue' })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({ statusCode: 503, retryAfterSeconds: 12 });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  test('gives up after maxRetries', async () => {
+    send.mockRejectedValue(httpError(503));
+
+    await expect(
+      client({ maxRetries: 2 }).request({
+        method: 'GET',
+        url: 'https://jira/issue',
+      })
+    ).rejects.toMatchObject({ statusCode: 502 });
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not repeat a timed-out call', async () => {
+    send.mockRejectedValue(
+      Object.assign(new Error('timeout'), { code: 'ECONNABORTED' })
+    );
+
+    await expect(
+      client().request({ method: 'GET', url: 'https://jira/issue' })
+    ).rejects.toMatchObject({ statusCode: 504 });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('UpstreamClient deadline', () => {
+  test('fails without calling once the deadline has passed', async () => {
+    await expect(
+      client().request({
+        method: 'GET',
+        url: 'https://jira/issue',
+        deadline: Date.now() - 1,
+      })
+    ).rejects.toMatchObject({ statusCode: 504 });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  test('times the attempt out at the deadline', async () => {
+    send.mockResolvedValue(ok);
+
+    await client().request({
+      method: 'GET',
+      url: 'https://jira/issue',
+      deadline: Date.now() + 1000,
+    });
+
+    expect(send.mock.calls[0][0].timeout).toBeLessThanOrEqual(1000);
+  });
+
+  test('does not start a retry that would end past the deadline', async () => {
+    send.mockRejectedValue(httpError(502));
+
+    await expect(
+      client({ baseDelayMs: 5000, maxDelayMs: 8000 }).request({
+        method: 'GET',
+        url: 'https://jira/issue',
+        deadline: Date.now() + 1000,
+      })
+    ).rejects.toMatchObject({ statusCode: 502 });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('UpstreamClient circuit breaker', () => {
+  test('fails fast once the upstream keeps failing', async () => {
+    send.mockRejectedValue(httpError(502));
+    const jira = client({ maxRetries: 0, failureThreshold: 2 });
+    const call = () => jira.request({ method: 'GET', url: 'https://jira/x' });
+
+    await expect(call()).rejects.toMatchObject({ statusCode: 502 });
+    await expect(call()).rejects.toMatchObject({ statusCode: 502 });
+    await expect(call()).rejects.toMatchObject({ statusCode: 503 });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  test('lets a trial call through after the reset timeout', async () => {
+    send.mockRejectedValueOnce(httpError(502)).mockResolvedValueOnce(ok);
+    const jira = client({
+      maxRetries: 0,
+      failureThreshold: 1,
+      resetTimeoutMs: 0,
+    });
+    const call = () => jira.request({ method: 'GET', url: 'https://jira/x' });
+
+    await expect(call()).rejects.toMatchObject({ statusCode: 502 });
+    await expect(call()).resolves.toEqual(ok);
+  });
+
+  test('does not count client errors as failures', async () => {
+    send.mockRejectedValue(httpError(404));
+    const jira = client({ maxRetries: 0, failureThreshold: 1 });
+    const call = () => jira.request({ method: 'GET', url: 'https://jira/x' });
+
+    await expect(call()).rejects.toMatchObject({ statusCode: 404 });
+    await expect(call()).rejects.toMatchObject({ statusCode: 404 });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  inspectDestinationUrl,
+  isPrivateAddress,
+  loadUrlPolicy,
+  validateDestinationUrl,
+} from '../resources/shared/utils/urlPolicy';
+
+const policy = loadUrlPolicy({
+  BASE_URL: 'https://urlify.cc',
+  URL_DENIED_DOMAINS: 'evil.example, *.blocked.example',
+  URL_MAX_REDIRECTS: '3',
+});
+
+const errorCode = (url: string, urlPolicy = policy) =>
+  validateDestinationUrl(url, urlPolicy)?.code ?? null;
+
+describe('loadUrlPolicy', () => {
+  test('normalises domain lists and reads the self domain from BASE_URL', () => {
+    expect(policy).toEqual({
+      allowedDomains: [],
+      deniedDomains: ['evil.example', 'blocked.example'],
+      selfDomains: ['urlify.cc'],
+      maxRedirects: 3,
+    });
+  });
+});
+
+describe('validateDestinationUrl', () => {
+  test('accepts public http and https URLs', () => {
+    expect(errorCode('https://example.com/path?q=1')).toBeNull();
+    expect(errorCode('http://93.184.216.34/')).toBeNull();
+  });
+
+  test('rejects malformed URLs and other schemes', () => {
+    expect(errorCode('not a url')).toBe('INVALID_URL');
+    expect(errorCode('javascript:alert(1)')).toBe('UNSUPPORTED_URL_SCHEME');
+  });
+
+  test('rejects private addresses and internal host names', () => {
+    expect(errorCode('http://127.0.0.1/')).toBe('PRIVATE_ADDRESS');
+    expect(errorCode('http://[::ffff:10.0.0.1]/')).toBe('PRIVATE_ADDRESS');
+    expect(errorCode('http://db.internal/')).toBe('PRIVATE_ADDRESS');
+  });
+
+  test('rejects the shortener itself and denied domains with subdomains', () => {
+    expect(errorCode('https://urlify.cc/abc')).toBe('SELF_REFERENCING_URL');
+    expect(errorCode('https://www.evil.example/')).toBe('DOMAIN_DENIED');
+    expect(errorCode('https://notevil.example/')).toBeNull();
+  });
+
+  test('only accepts allowlisted domains when an allowlist is set', () => {
+    const allowlist = loadUrlPolicy({ URL_ALLOWED_DOMAINS: 'example.com' });
+    expect(errorCode('https://docs.example.com/', allowlist)).toBeNull();
+    expect(errorCode('https://example.org/', allowlist)).toBe(
+      'DOMAIN_NOT_ALLOWED'
+    );
+  });
+});
+
+describe('isPrivateAddress', () => {
+  test.each([
+    ['10.1.2.3', true],
+    ['172.16.0.1', true],
+    ['172.32.0.1', false],
+    ['100.64.0.1', true],
+    ['169.254.169.254', true],
+    ['8.8.8.8', false],
+    ['::1', true],
+    ['fd00::1', true],
+    ['fe80::1', true],
+    ['2001:4860:4860::8888', false],
+  ])('%s -> %s', (address, expected) => {
+    expect(isPrivateAddress(address)).toBe(expected);
+  });
+});
+
+describe('inspectDestinationUrl', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('stops following redirects at the deadline', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+
+    await expect(
+      inspectDestinationUrl('http://93.184.216.34/', policy, {
+        deadline: Date.now() - 1,
+      })
+    ).resolves.toBeNull();
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  test('rejects a redirect back to the shortener', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(null, {
+        status: 301,
+        headers: { Location: 'https://urlify.cc/abc' },
+      })
+    );
+
+    await expect(
+      inspectDestinationUrl('http://93.184.216.34/', policy)
+    ).resolves.toMatchObject({ code: 'REDIRECT_LOOP' });
+  });
+});
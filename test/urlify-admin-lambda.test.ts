@@ -0,0 +1,308 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+process.env.URLIFY_TABLE_NAME = 'UrlifyTable';
+process.env.URLIFY_CURSOR_SECRET = 'test-cursor-secret';
+process.env.URLIFY_ADMIN_API_KEY = 'test-admin-key';
+process.env.BASE_URL = 'https://urlify.cc';
+
+// Required after the environment it reads at module init
+const { handler } =
+  require('../resources/lambda/urlify-admin-lambda/index') as typeof import('../resources/lambda/urlify-admin-lambda/index');
+
+/**
+ * Answers the DynamoDB commands the Lambda sends, by command name
+ */
+let dynamo: jest.Mock<Promise<any>, [string, any]>;
+
+beforeEach(() => {
+  // Every request logs its event
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  dynamo = jest.fn(async (_name: string, _input: any) => ({}));
+  const send = (command: any) =>
+    dynamo(command.constructor.name, command.input);
+  jest.spyOn(DynamoDBClient.prototype, 'send').mockImplementation(send as any);
+  jest
+    .spyOn(DynamoDBDocumentClient.prototype, 'send')
+    .mockImplementation(send as any);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/**
+ * An admin API request made with the bootstrap admin key
+ */
+function request(
+  httpMethod: string,
+  resource: string,
+  options: {
+    body?: unknown;
+    query?: Record<string, string>;
+    pathParameters?: Record<string, string>;
+    headers?: Record<string, string>;
+  } = {}
+): APIGatewayProxyEvent {
+  return {
+    httpMethod,
+    resource: `/urlify${resource}`,
+    path: `/urlify${resource}`,
+    headers: { 'X-Api-Key': 'test-admin-key', ...options.headers },
+    multiValueHeaders: {},
+    queryStringParameters: options.query ?? null,
+    multiValueQueryStringParameters: null,
+    pathParameters: options.pathParameters ?? null,
+    stageVariables: null,
+    body:
+      options.body === undefined || typeof options.body === 'string'
+        ? (options.body ?? null)
+        : JSON.stringify(options.body),
+    isBase64Encoded: false,
+    requestContext: {
+      identity: { sourceIp: '203.0.113.7' },
+    } as APIGatewayProxyEvent['requestContext'],
+  };
+}
+
+function errorCodes(body: string): string[] {
+  return (JSON.parse(body).errors ?? []).map((error: any) => error.code);
+}
+
+describe('GET /urlify/urls', () => {
+  test('rejects a created-date range that ends before it starts', async () => {
+    const response = await handler(
+      request('GET', '/urls', {
+        query: { createdFrom: '2026-05-02', createdTo: '2026-05-01' },
+      })
+    );
+
+    expect(response.statusCode).toBe(400);
+    expect(errorCodes(response.body)).toEqual(['INVALID_DATE_RANGE']);
+    expect(dynamo).not.toHaveBeenCalled();
+  });
+
+  test('accepts a single-day range', async () => {
+    dynamo.mockResolvedValue({ Items: [] });
+
+    const response = await handler(
+      request('GET', '/urls', {
+        query: { createdFrom: '2026-05-01', createdTo: '2026-05-01' },
+      })
+    );
+
+    expect(response.statusCode).toBe(200);
+    const [, query] = dynamo.mock.calls[0];
+    expect(query.KeyConditionExpression).toContain(
+      'CreatedAt BETWEEN :createdFrom AND :createdTo'
+    );
+  });
+});
+
+describe('POST /urlify/shorten', () => {
+  test.each(['batch-delete', 'Export', 'keys'])(
+    'rejects the route segment %s as a custom code',
+    async (customCode) => {
+      const response = await handler(
+        request('POST', '/shorten', {
+          body: { originalUrl: 'https://example.com', customCode },
+        })
+      );
+
+      expect(response.statusCode).toBe(400);
+      expect(errorCodes(response.body)).toEqual(['RESERVED_CUSTOM_CODE']);
+    }
+  );
+});
+
+describe('export and import', () => {
+  const links = [
+    {
+      PK: 'URL#docs',
+      SK: 'METADATA',
+      ShortCode: 'docs',
+      OriginalUrl: 'http://93.184.216.34/docs?lang=en',
+      CreatedBy: 'alice',
+      CreatedAt: Date.parse('2026-05-01T10:00:00Z'),
+      Clicks: 42,
+      EntityType: 'URL',
+      RedirectType: 301,
+      Utm: { source: 'newsletter', medium: 'email' },
+    },
+    {
+      PK: 'URL#promo',
+      SK: 'METADATA',
+      ShortCode: 'promo',
+      OriginalUrl: 'http://93.184.216.34/promo',
+      CreatedBy: 'bob',
+      CreatedAt: Date.parse('2026-04-01T10:00:00Z'),
+      Clicks: 7,
+      EntityType: 'URL',
+      Enabled: false,
+      MaxClicks: 100,
+    },
+  ];
+
+  test('imports a CSV export back, reporting codes that are taken', async () => {
+    dynamo.mockImplementation(async (name, input) => {
+      if (name === 'QueryCommand') {
+        return { Items: links.map((link) => marshall(link)) };
+      }
+      if (name === 'PutItemCommand' && input.Item.PK.S === 'URL#promo') {
+        throw Object.assign(new Error('The conditional request failed'), {
+          name: 'ConditionalCheckFailedException',
+        });
+      }
+      return {};
+    });
+
+    const exported = await handler(
+      request('GET', '/export', { query: { format: 'csv' } })
+    );
+    expect(exported.statusCode).toBe(200);
+
+    const imported = await handler(
+      request('POST', '/import', {
+        body: exported.body,
+        query: { format: 'csv' },
+      })
+    );
+
+    expect(imported.statusCode).toBe(200);
+    const { results, succeeded, failed } = JSON.parse(imported.body).data;
+    expect({ succeeded, failed }).toEqual({ succeeded: 1, failed: 1 });
+    expect(results[0]).toMatchObject({ shortCode: 'docs', success: true });
+    expect(results[1]).toMatchObject({
+      index: 1,
+      success: false,
+      errors: [{ code: 'SHORT_CODE_TAKEN' }],
+    });
+
+    const written = dynamo.mock.calls
+      .filter(
+        ([name, input]) =>
+          name === 'PutItemCommand' && input.Item.PK.S === 'URL#docs'
+      )
+      .map(([, input]) => unmarshall(input.Item));
+    expect(written).toEqual([
+      expect.objectContaining({
+        OriginalUrl: 'http://93.184.216.34/docs?lang=en',
+        CreatedBy: 'alice',
+        RedirectType: 301,
+        Utm: { source: 'newsletter', medium: 'email' },
+        // Stats start over
+        Clicks: 0,
+      }),
+    ]);
+    const promo = dynamo.mock.calls.find(
+      ([name, input]) =>
+        name === 'PutItemCommand' && input.Item.PK.S === 'URL#promo'
+    );
+    expect(unmarshall(promo![1].Item)).toMatchObject({
+      Enabled: false,
+      MaxClicks: 100,
+      CreatedBy: 'bob',
+    });
+  });
+});
+
+describe('PATCH /urlify/url/{shortCode}', () => {
+  const stored = {
+    PK: 'URL#docs',
+    SK: 'METADATA',
+    ShortCode: 'docs',
+    OriginalUrl: 'http://93.184.216.34/docs',
+    CreatedBy: 'alice',
+    CreatedAt: Date.parse('2026-05-01T10:00:00Z'),
+    Clicks: 42,
+    EntityType: 'URL',
+    Version: 3,
+  };
+
+  function patch(version: number) {
+    return handler(
+      request('PATCH', '/url/{shortCode}', {
+        pathParameters: { shortCode: 'docs' },
+        body: { version, enabled: false },
+      })
+    );
+  }
+
+  function cancelTransaction(...codes: string[]) {
+    return Object.assign(new Error('Transaction cancelled'), {
+      name: 'TransactionCanceledException',
+      CancellationReasons: codes.map((Code) => ({ Code })),
+    });
+  }
+
+  beforeEach(() => {
+    dynamo.mockImplementation(async (name) =>
+      name === 'GetItemCommand' ? { Item: marshall(stored) } : {}
+    );
+  });
+
+  test('rejects a stale version without writing', async () => {
+    const response = await patch(2);
+
+    expect(response.statusCode).toBe(409);
+    expect(errorCodes(response.body)).toEqual(['VERSION_CONFLICT']);
+    expect(dynamo.mock.calls.map(([name]) => name)).not.toContain(
+      'TransactWriteItemsCommand'
+    );
+  });
+
+  test('writes the edit with its history under the version condition', async () => {
+    const response = await patch(3);
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toMatchObject({
+      enabled: false,
+      version: 4,
+    });
+    const [, transaction] = dynamo.mock.calls.find(
+      ([name]) => name === 'TransactWriteItemsCommand'
+    )!;
+    expect(transaction.TransactItems[0].Update.ConditionExpression).toBe(
+      'Version = :expectedVersion'
+    );
+    expect(unmarshall(transaction.TransactItems[1].Put.Item).SK).toMatch(
+      /^HISTORY#/
+    );
+  });
+
+  test('reports an edit that lost the race as a conflict', async () => {
+    dynamo.mockImplementation(async (name) => {
+      if (name === 'GetItemCommand') {
+        return { Item: marshall(stored) };
+      }
+      if (name === 'TransactWriteItemsCommand') {
+        throw cancelTransaction('ConditionalCheckFailed', 'None');
+      }
+      return {};
+    });
+
+    const response = await patch(3);
+
+    expect(response.statusCode).toBe(409);
+    expect(errorCodes(response.body)).toEqual(['VERSION_CONFLICT']);
+  });
+
+  test('does not mistake other cancellations for a conflict', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    dynamo.mockImplementation(async (name) => {
+      if (name === 'GetItemCommand') {
+        return { Item: marshall(stored) };
+      }
+      if (name === 'TransactWriteItemsCommand') {
+        throw cancelTransaction('None', 'ThrottlingError');
+      }
+      return {};
+    });
+
+    const response = await patch(3);
+
+    expect(response.statusCode).toBe(500);
+  });
+});
@@ -0,0 +1,33 @@
+import { pickVariant } from '../resources/shared/utils/variantUtils';
+
+const variants = [
+  { id: 'a', destination: 'https://example.com/a', weight: 70 },
+  { id: 'b', destination: 'https://example.com/b', weight: 30 },
+];
+
+describe('pickVariant', () => {
+  test('gives the same seed the same variant', () => {
+    const seed = '203.0.113.7|Mozilla/5.0';
+    expect(pickVariant(variants, seed)).toBe(pickVariant(variants, seed));
+  });
+
+  test('splits traffic by weight', () => {
+    let picksOfA = 0;
+    for (let i = 0; i < 10_000; i++) {
+      if (pickVariant(variants, `visitor-${i}`).id === 'a') {
+        picksOfA++;
+      }
+    }
+    expect(picksOfA / 10_000).toBeGreaterThan(0.67);
+    expect(picksOfA / 10_000).toBeLessThan(0.73);
+  });
+
+  test('never picks a variant without weight', () => {
+    const [a, b] = variants;
+    for (let i = 0; i < 100; i++) {
+      expect(pickVariant([a, { ...b, weight: 0 }], `visitor-${i}`).id).toBe(
+        'a'
+      );
+    }
+  });
+});
@@ -0,0 +1,4 @@
+// @types/qrcode declares canvas overloads with the DOM's HTMLCanvasElement.
+// The Lambdas only render strings and buffers, so an empty stand-in keeps
+// the DOM lib out of the build.
+interface HTMLCanvasElement {}